@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db, initializeDb } from '../src/db/database';
-import { STATES } from '../src/types';
+import { STATES, BookingRow, PaymentRow, RefundRow } from '../src/types';
+import { recordCancellationFee, recordPaymentReceived, recordRefundPaid } from '../src/services/ledgerService';
 import { logger } from '../src/utils/logger';
 
 interface TripSeed {
@@ -29,9 +30,11 @@ interface BookingSeed {
 export async function seed(): Promise<void> {
   await initializeDb();
 
-  await db.transaction(async () => {
-    await db.run('DELETE FROM bookings');
-    await db.run('DELETE FROM trips');
+  await db.transaction(async (tx) => {
+    await tx.run('DELETE FROM bookings');
+    await tx.run('DELETE FROM trips');
+    await tx.run('DELETE FROM users');
+    await tx.run('TRUNCATE ledger_postings, ledger_entries');
 
     const now = new Date();
 
@@ -105,7 +108,7 @@ export async function seed(): Promise<void> {
 
     for (const trip of trips) {
       const ts = new Date().toISOString();
-      await db.run(
+      await tx.run(
         `INSERT INTO trips
          (id, title, destination, start_date, end_date, price, max_capacity, available_seats, status,
           refundable_until_days_before, cancellation_fee_percent, created_at, updated_at)
@@ -131,24 +134,65 @@ export async function seed(): Promise<void> {
       { trip: trips[4], num_seats: 1, state: STATES.CANCELLED, refund_amount: 0, cancelled_at: new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000).toISOString() },
     ];
 
-    for (const entry of sampleBookings) {
-      const bookingId = uuidv4();
+    const userIds: string[] = [];
+    for (const name of ['Alice Martin', 'Bruno Costa', 'Chen Wei']) {
       const userId = uuidv4();
       const created = new Date().toISOString();
+      await tx.run(
+        'INSERT INTO users (id, name, email, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+        [userId, name, `${name.split(' ')[0].toLowerCase()}@example.com`, created, created]
+      );
+      userIds.push(userId);
+    }
+
+    for (const [index, entry] of sampleBookings.entries()) {
+      const bookingId = uuidv4();
+      const userId = userIds[index % userIds.length];
+      const created = new Date().toISOString();
       const priceAt = entry.trip.price * entry.num_seats;
 
-      await db.run(
+      const booking = await tx.get<BookingRow>(
         `INSERT INTO bookings
           (id, trip_id, user_id, num_seats, state, price_at_booking, created_at, expires_at, cancelled_at, refund_amount, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`,
         [bookingId, entry.trip.id, userId, entry.num_seats, entry.state, priceAt, created, entry.expires_at || null, entry.cancelled_at || null, entry.refund_amount || null, created]
       );
+
+      // Confirmed and cancelled samples were paid, so they get a payment and their ledger entries
+      if (entry.state !== STATES.CONFIRMED && entry.state !== STATES.CANCELLED) continue;
+
+      const reference = `seed_pay_${bookingId}`;
+      await tx.run('UPDATE bookings SET idempotency_key = ?, payment_reference = ? WHERE id = ?', [reference, reference, bookingId]);
+      const payment = await tx.get<PaymentRow>(
+        `INSERT INTO payments (id, booking_id, provider_reference, attempt, amount, currency, status, created_at, updated_at)
+         VALUES (?, ?, ?, 1, ?, ?, 'SUCCEEDED', ?, ?)
+         RETURNING *`,
+        [uuidv4(), bookingId, reference, priceAt, booking!.currency, created, created]
+      );
+      await recordPaymentReceived(tx, booking!, payment!, created);
+
+      if (entry.state === STATES.CANCELLED) {
+        const refundAmount = entry.refund_amount || 0;
+        await recordCancellationFee(tx, booking!, priceAt - refundAmount, 'Cancellation fee retained', created);
+        if (refundAmount > 0) {
+          const refund = await tx.get<RefundRow>(
+            `INSERT INTO refunds
+             (id, booking_id, payment_id, amount, currency, status, provider_reference, attempts, created_at, updated_at, completed_at)
+             VALUES (?, ?, ?, ?, ?, 'SUCCEEDED', ?, 1, ?, ?, ?)
+             RETURNING *`,
+            [uuidv4(), bookingId, payment!.id, refundAmount, booking!.currency, `seed_refund_${bookingId}`, created, created, created]
+          );
+          await recordRefundPaid(tx, refund!, created);
+        }
+      }
     }
 
     logger.info('Database seeded successfully', { trips: trips.length, bookings: sampleBookings.length });
   });
 
   console.log('✅ Database seeded successfully!');
+  console.log(`   - ${3} users created`);
   console.log(`   - ${5} trips created`);
   console.log(`   - ${10} bookings created`);
 }
@@ -0,0 +1,9 @@
+import { toDot, toMermaid } from '../src/utils/stateMachine';
+
+// Prints the booking state machine for the docs: Mermaid by default, Graphviz DOT with --dot
+function main(): void {
+  const format = process.argv.includes('--dot') ? 'dot' : 'mermaid';
+  console.log(format === 'dot' ? toDot() : toMermaid());
+}
+
+main();
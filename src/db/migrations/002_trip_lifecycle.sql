@@ -0,0 +1,5 @@
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_status_check;
+ALTER TABLE trips ADD CONSTRAINT trips_status_check
+  CHECK (status IN ('DRAFT', 'PUBLISHED', 'CANCELLED', 'ARCHIVED'));
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP;
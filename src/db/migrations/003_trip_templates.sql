@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS trip_templates (
+  id VARCHAR(36) PRIMARY KEY,
+  title VARCHAR(255) NOT NULL,
+  destination VARCHAR(255) NOT NULL,
+  duration_days INTEGER NOT NULL CHECK (duration_days > 0),
+  price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+  max_capacity INTEGER NOT NULL CHECK (max_capacity > 0),
+  refundable_until_days_before INTEGER NOT NULL,
+  cancellation_fee_percent INTEGER NOT NULL,
+  recurrence_frequency VARCHAR(10) CHECK(recurrence_frequency IN ('DAILY', 'WEEKLY')) NOT NULL,
+  recurrence_interval INTEGER NOT NULL DEFAULT 1 CHECK (recurrence_interval > 0),
+  recurrence_weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  departure_time VARCHAR(5) NOT NULL DEFAULT '09:00',
+  starts_on DATE NOT NULL,
+  until DATE NOT NULL,
+  created_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL
+);
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS template_id VARCHAR(36) REFERENCES trip_templates(id);
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS template_detached BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trips_template_start_date ON trips(template_id, start_date) WHERE template_id IS NOT NULL;
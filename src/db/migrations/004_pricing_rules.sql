@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id VARCHAR(36) PRIMARY KEY,
+  trip_id VARCHAR(36) NOT NULL,
+  rule_type VARCHAR(20) CHECK(rule_type IN ('EARLY_BIRD', 'OCCUPANCY', 'GROUP')) NOT NULL,
+  threshold INTEGER NOT NULL CHECK (threshold >= 0),
+  adjustment_percent DECIMAL(5,2) NOT NULL,
+  created_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_trip_id ON pricing_rules(trip_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS pricing_breakdown JSONB;
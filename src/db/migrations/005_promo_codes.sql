@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id VARCHAR(36) PRIMARY KEY,
+  code VARCHAR(50) NOT NULL UNIQUE,
+  discount_type VARCHAR(10) CHECK(discount_type IN ('PERCENT', 'FIXED')) NOT NULL,
+  discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+  trip_id VARCHAR(36),
+  valid_from TIMESTAMP NOT NULL,
+  valid_until TIMESTAMP NOT NULL,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  max_redemptions_per_user INTEGER CHECK (max_redemptions_per_user > 0),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id VARCHAR(36) PRIMARY KEY,
+  promo_code_id VARCHAR(36) NOT NULL,
+  booking_id VARCHAR(36) NOT NULL UNIQUE,
+  user_id VARCHAR(36) NOT NULL,
+  discount_amount DECIMAL(10,2) NOT NULL,
+  created_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (promo_code_id) REFERENCES promo_codes(id) ON DELETE CASCADE,
+  FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promo_code_id ON promo_redemptions(promo_code_id);
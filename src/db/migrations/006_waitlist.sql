@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id VARCHAR(36) PRIMARY KEY,
+  trip_id VARCHAR(36) NOT NULL,
+  user_id VARCHAR(36) NOT NULL,
+  num_seats INTEGER NOT NULL CHECK (num_seats > 0),
+  state VARCHAR(20) CHECK(state IN ('WAITING', 'OFFERED', 'CANCELLED')) NOT NULL,
+  booking_id VARCHAR(36),
+  created_at TIMESTAMP NOT NULL,
+  offered_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE,
+  FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_waiting ON waitlist_entries(trip_id, created_at) WHERE state = 'WAITING';
@@ -0,0 +1,16 @@
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'INR';
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'INR';
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS fx_rate DECIMAL(18,8) NOT NULL DEFAULT 1 CHECK (fx_rate > 0);
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id VARCHAR(36) PRIMARY KEY,
+  base_currency VARCHAR(3) NOT NULL,
+  quote_currency VARCHAR(3) NOT NULL,
+  rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+  effective_from TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL,
+  UNIQUE (base_currency, quote_currency, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates(base_currency, quote_currency, effective_from DESC);
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS booking_passengers (
+  id VARCHAR(36) PRIMARY KEY,
+  booking_id VARCHAR(36) NOT NULL,
+  full_name VARCHAR(255) NOT NULL,
+  date_of_birth DATE NOT NULL,
+  nationality VARCHAR(2) NOT NULL,
+  document_number VARCHAR(50) NOT NULL,
+  emergency_contact_name VARCHAR(255) NOT NULL,
+  emergency_contact_phone VARCHAR(30) NOT NULL,
+  created_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_passengers_booking_id ON booking_passengers(booking_id);
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS booking_refund_lines (
+  id VARCHAR(36) PRIMARY KEY,
+  booking_id VARCHAR(36) NOT NULL,
+  num_seats INTEGER NOT NULL CHECK (num_seats > 0),
+  seat_value DECIMAL(10, 2) NOT NULL,
+  refund_amount DECIMAL(10, 2) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  seats_released BOOLEAN NOT NULL,
+  created_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_refund_lines_booking_id ON booking_refund_lines(booking_id);
@@ -0,0 +1,23 @@
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS change_fee_percent INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_change_fee_percent_check;
+ALTER TABLE trips ADD CONSTRAINT trips_change_fee_percent_check CHECK (change_fee_percent >= 0 AND change_fee_percent <= 100);
+
+CREATE TABLE IF NOT EXISTS booking_transfers (
+  id VARCHAR(36) PRIMARY KEY,
+  booking_id VARCHAR(36) NOT NULL,
+  from_trip_id VARCHAR(36) NOT NULL,
+  to_trip_id VARCHAR(36) NOT NULL,
+  num_seats INTEGER NOT NULL,
+  previous_value DECIMAL(10, 2) NOT NULL,
+  new_value DECIMAL(10, 2) NOT NULL,
+  fare_difference DECIMAL(10, 2) NOT NULL,
+  change_fee DECIMAL(10, 2) NOT NULL,
+  amount_due DECIMAL(10, 2) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  created_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE,
+  FOREIGN KEY (from_trip_id) REFERENCES trips(id),
+  FOREIGN KEY (to_trip_id) REFERENCES trips(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_transfers_booking_id ON booking_transfers(booking_id);
@@ -0,0 +1,5 @@
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS hold_ttl_minutes INTEGER;
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_hold_ttl_minutes_check;
+ALTER TABLE trips ADD CONSTRAINT trips_hold_ttl_minutes_check CHECK (hold_ttl_minutes IS NULL OR hold_ttl_minutes > 0);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hold_extended_at TIMESTAMP;
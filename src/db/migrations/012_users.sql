@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS users (
+  id VARCHAR(36) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255) UNIQUE,
+  phone VARCHAR(30),
+  created_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL
+);
+
+-- Bookings and waitlist entries created before users existed keep working: their free-form
+-- user ids become placeholder profiles without contact details
+INSERT INTO users (id, name, created_at, updated_at)
+SELECT DISTINCT user_id, 'Unknown user', NOW(), NOW()
+FROM (SELECT user_id FROM bookings UNION SELECT user_id FROM waitlist_entries) existing
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_user_id_fkey;
+ALTER TABLE bookings ADD CONSTRAINT bookings_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id);
+
+ALTER TABLE waitlist_entries DROP CONSTRAINT IF EXISTS waitlist_entries_user_id_fkey;
+ALTER TABLE waitlist_entries ADD CONSTRAINT waitlist_entries_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id);
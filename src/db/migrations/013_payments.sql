@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS payments (
+  id VARCHAR(36) PRIMARY KEY,
+  booking_id VARCHAR(36) NOT NULL,
+  provider_reference VARCHAR(255) NOT NULL UNIQUE,
+  attempt INTEGER NOT NULL CHECK (attempt > 0),
+  amount DECIMAL(10, 2) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('SUCCEEDED', 'FAILED')),
+  failure_reason VARCHAR(255),
+  created_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE,
+  UNIQUE (booking_id, attempt)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_booking_id ON payments(booking_id);
+
+-- Bookings settled before payments existed only kept the webhook key on the booking itself
+INSERT INTO payments (id, booking_id, provider_reference, attempt, amount, currency, status, created_at, updated_at)
+SELECT md5(b.id || ':payment'), b.id, b.idempotency_key, 1, b.price_at_booking, b.currency,
+       CASE WHEN b.state = 'EXPIRED' THEN 'FAILED' ELSE 'SUCCEEDED' END,
+       b.updated_at, b.updated_at
+FROM bookings b
+WHERE b.idempotency_key IS NOT NULL
+ON CONFLICT DO NOTHING;
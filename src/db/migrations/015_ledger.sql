@@ -0,0 +1,89 @@
+-- Journal entries reference bookings, trips, payments and refunds by id only: the ledger is a
+-- permanent record and must not be cascaded away with operational rows.
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id VARCHAR(36) PRIMARY KEY,
+  entry_type VARCHAR(30) NOT NULL CHECK (entry_type IN ('PAYMENT_RECEIVED', 'DISCOUNT', 'CANCELLATION_FEE', 'REFUND_PAID')),
+  booking_id VARCHAR(36) NOT NULL,
+  trip_id VARCHAR(36) NOT NULL,
+  payment_id VARCHAR(36),
+  refund_id VARCHAR(36),
+  currency VARCHAR(3) NOT NULL,
+  fx_rate DECIMAL(18, 8) NOT NULL,
+  description VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+  id VARCHAR(36) PRIMARY KEY,
+  entry_id VARCHAR(36) NOT NULL REFERENCES ledger_entries(id),
+  account VARCHAR(30) NOT NULL CHECK (account IN ('CASH', 'SALES', 'DISCOUNTS', 'CANCELLATION_FEES', 'REFUNDS')),
+  direction VARCHAR(6) NOT NULL CHECK (direction IN ('DEBIT', 'CREDIT')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_trip_id ON ledger_entries(trip_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_booking_id ON ledger_entries(booking_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry_id ON ledger_postings(entry_id);
+
+CREATE OR REPLACE FUNCTION ledger_reject_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger tables are append-only: % on % is not allowed', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON ledger_entries;
+CREATE TRIGGER ledger_entries_append_only BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION ledger_reject_changes();
+
+DROP TRIGGER IF EXISTS ledger_postings_append_only ON ledger_postings;
+CREATE TRIGGER ledger_postings_append_only BEFORE UPDATE OR DELETE ON ledger_postings
+  FOR EACH ROW EXECUTE FUNCTION ledger_reject_changes();
+
+-- Opening entries for paid bookings that settled before the ledger existed. Refunds tracked in
+-- `refunds` count only once SUCCEEDED; the refund webhook posts the others when they are paid.
+-- Older refunds with no such record are assumed paid out. Ids are derived from the booking so
+-- reruns are no-ops.
+DROP TABLE IF EXISTS ledger_backfill;
+CREATE TEMP TABLE ledger_backfill AS
+SELECT b.id, b.trip_id, b.currency, b.fx_rate, b.updated_at,
+       b.price_at_booking::numeric AS paid,
+       CASE WHEN EXISTS (SELECT 1 FROM refunds r WHERE r.booking_id = b.id)
+            THEN (SELECT COALESCE(SUM(r.amount), 0) FROM refunds r WHERE r.booking_id = b.id AND r.status = 'SUCCEEDED')
+            ELSE COALESCE(b.refund_amount, 0)
+       END::numeric AS refunded,
+       CASE WHEN b.state = 'CANCELLED'
+            THEN b.price_at_booking - COALESCE(b.refund_amount, 0)
+            ELSE COALESCE((SELECT SUM(l.seat_value - l.refund_amount) FROM booking_refund_lines l WHERE l.booking_id = b.id), 0)
+       END::numeric AS fees
+FROM bookings b
+WHERE b.state IN ('CONFIRMED', 'CANCELLED')
+  AND (b.idempotency_key IS NOT NULL
+       OR EXISTS (SELECT 1 FROM payments p WHERE p.booking_id = b.id AND p.status = 'SUCCEEDED'))
+  AND NOT EXISTS (SELECT 1 FROM ledger_entries e WHERE e.booking_id = b.id);
+
+INSERT INTO ledger_entries (id, entry_type, booking_id, trip_id, currency, fx_rate, description, created_at)
+SELECT md5(id || ':opening-payment'), 'PAYMENT_RECEIVED', id, trip_id, currency, fx_rate, 'Opening balance: payment received', updated_at
+FROM ledger_backfill
+UNION ALL
+SELECT md5(id || ':opening-fee'), 'CANCELLATION_FEE', id, trip_id, currency, fx_rate, 'Opening balance: cancellation fees retained', updated_at
+FROM ledger_backfill WHERE fees > 0
+UNION ALL
+SELECT md5(id || ':opening-refund'), 'REFUND_PAID', id, trip_id, currency, fx_rate, 'Opening balance: refunds paid', updated_at
+FROM ledger_backfill WHERE refunded > 0
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO ledger_postings (id, entry_id, account, direction, amount)
+SELECT md5(id || ':opening-payment:dr'), md5(id || ':opening-payment'), 'CASH', 'DEBIT', paid FROM ledger_backfill
+UNION ALL
+SELECT md5(id || ':opening-payment:cr'), md5(id || ':opening-payment'), 'SALES', 'CREDIT', paid FROM ledger_backfill
+UNION ALL
+SELECT md5(id || ':opening-fee:dr'), md5(id || ':opening-fee'), 'SALES', 'DEBIT', fees FROM ledger_backfill WHERE fees > 0
+UNION ALL
+SELECT md5(id || ':opening-fee:cr'), md5(id || ':opening-fee'), 'CANCELLATION_FEES', 'CREDIT', fees FROM ledger_backfill WHERE fees > 0
+UNION ALL
+SELECT md5(id || ':opening-refund:dr'), md5(id || ':opening-refund'), 'REFUNDS', 'DEBIT', refunded FROM ledger_backfill WHERE refunded > 0
+UNION ALL
+SELECT md5(id || ':opening-refund:cr'), md5(id || ':opening-refund'), 'CASH', 'CREDIT', refunded FROM ledger_backfill WHERE refunded > 0
+ON CONFLICT (id) DO NOTHING;
+
+DROP TABLE ledger_backfill;
@@ -0,0 +1,3 @@
+-- Ordered refund schedule, e.g. [{"days_before": 30, "refund_percent": 100}, {"days_before": 14, "refund_percent": 75}].
+-- NULL keeps the single-step policy from refundable_until_days_before / cancellation_fee_percent.
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS refund_tiers JSONB;
@@ -0,0 +1,5 @@
+-- Set when an admin cancels a booking outside the trip's refund policy
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_reason_code VARCHAR(30);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_note TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_by VARCHAR(100);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_override JSONB;
@@ -0,0 +1,14 @@
+-- One row per booking state change; from_state is NULL for the event that created the booking.
+-- History starts with this migration: bookings that already exist have no events for earlier changes.
+CREATE TABLE IF NOT EXISTS booking_events (
+  id VARCHAR(36) PRIMARY KEY,
+  booking_id VARCHAR(36) NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  from_state VARCHAR(20),
+  to_state VARCHAR(20) NOT NULL,
+  event VARCHAR(30) NOT NULL,
+  actor VARCHAR(100) NOT NULL,
+  source VARCHAR(30) NOT NULL,
+  created_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_events_booking ON booking_events(booking_id, created_at);
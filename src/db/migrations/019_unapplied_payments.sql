@@ -0,0 +1,15 @@
+-- Payments that could not be applied to their booking (it expired or was cancelled first, the amount
+-- or currency was wrong, or it was already paid) are refunded in full. At most one such refund per payment.
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'CANCELLATION';
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_kind_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_kind_check CHECK (kind IN ('CANCELLATION', 'UNAPPLIED_PAYMENT'));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_unapplied_payment ON refunds(payment_id) WHERE kind = 'UNAPPLIED_PAYMENT';
+
+-- Until the refund is paid the money sits in UNAPPLIED_PAYMENTS, outside the trip's revenue
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_entry_type_check
+  CHECK (entry_type IN ('PAYMENT_RECEIVED', 'DISCOUNT', 'CANCELLATION_FEE', 'REFUND_PAID', 'PAYMENT_UNAPPLIED'));
+
+ALTER TABLE ledger_postings DROP CONSTRAINT IF EXISTS ledger_postings_account_check;
+ALTER TABLE ledger_postings ADD CONSTRAINT ledger_postings_account_check
+  CHECK (account IN ('CASH', 'SALES', 'DISCOUNTS', 'CANCELLATION_FEES', 'REFUNDS', 'UNAPPLIED_PAYMENTS'));
@@ -0,0 +1,20 @@
+-- A transfer that leaves the customer owing money waits for that payment before the fare difference
+-- is added to the booking's price; credits are refunded straight away
+ALTER TABLE booking_transfers ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'SETTLED';
+ALTER TABLE booking_transfers DROP CONSTRAINT IF EXISTS booking_transfers_status_check;
+ALTER TABLE booking_transfers ADD CONSTRAINT booking_transfers_status_check CHECK (status IN ('AWAITING_PAYMENT', 'SETTLED'));
+ALTER TABLE booking_transfers ADD COLUMN IF NOT EXISTS payment_id VARCHAR(36) REFERENCES payments(id);
+ALTER TABLE booking_transfers ADD COLUMN IF NOT EXISTS settled_at TIMESTAMP;
+-- Rate the booking had on its old trip, so refunds requested before the transfer stay on that trip
+ALTER TABLE booking_transfers ADD COLUMN IF NOT EXISTS from_fx_rate DECIMAL(18, 8);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_transfers_awaiting_payment ON booking_transfers(booking_id) WHERE status = 'AWAITING_PAYMENT';
+
+-- Transfers move the booking's sales between trips through TRANSFERS, which nets to zero across
+-- trips; change fees are revenue of their own
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE ledger_entries ADD CONSTRAINT ledger_entries_entry_type_check
+  CHECK (entry_type IN ('PAYMENT_RECEIVED', 'DISCOUNT', 'CANCELLATION_FEE', 'REFUND_PAID', 'PAYMENT_UNAPPLIED', 'TRANSFER', 'CHANGE_FEE'));
+
+ALTER TABLE ledger_postings DROP CONSTRAINT IF EXISTS ledger_postings_account_check;
+ALTER TABLE ledger_postings ADD CONSTRAINT ledger_postings_account_check
+  CHECK (account IN ('CASH', 'SALES', 'DISCOUNTS', 'CANCELLATION_FEES', 'REFUNDS', 'UNAPPLIED_PAYMENTS', 'CHANGE_FEES', 'TRANSFERS'));
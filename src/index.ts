@@ -2,13 +2,26 @@ import express from 'express';
 import cors from 'cors';
 import cron from 'node-cron';
 import tripsRouter from './routes/trips';
+import tripTemplatesRouter from './routes/tripTemplates';
+import pricingRouter from './routes/pricing';
+import promoCodesRouter from './routes/promoCodes';
+import waitlistRouter from './routes/waitlist';
+import exchangeRatesRouter from './routes/exchangeRates';
 import bookingsRouter from './routes/bookings';
+import usersRouter from './routes/users';
 import paymentsRouter from './routes/payments';
 import adminRouter from './routes/admin';
+import mockPaymentProviderRouter from './routes/mockPaymentProvider';
+import authRouter from './routes/auth';
 import { errorHandler } from './middleware/errorHandler';
+import { authenticate } from './middleware/auth';
 import { expirePendingBookings } from './services/expiryService';
+import { submitUnappliedRefunds } from './services/refundService';
 import { logger } from './utils/logger';
 import { initializeDb } from './db/database';
+import { parseApiKeys, allowsDevSecrets } from './utils/auth';
+import { parseWebhookSecrets } from './utils/webhookSignature';
+import { isMockPaymentProviderEnabled } from './services/mockPaymentProvider';
 
 function validateEnv(): void {
   const errors: string[] = [];
@@ -20,6 +33,43 @@ function validateEnv(): void {
     }
   }
 
+  if (process.env.MAX_PAYMENT_ATTEMPTS) {
+    const attempts = parseInt(process.env.MAX_PAYMENT_ATTEMPTS, 10);
+    if (isNaN(attempts) || attempts < 1) {
+      errors.push(`MAX_PAYMENT_ATTEMPTS must be a positive number, got: ${process.env.MAX_PAYMENT_ATTEMPTS}`);
+    }
+  }
+
+  for (const name of ['HOLD_TTL_MINUTES', 'MAX_HOLD_TTL_MINUTES']) {
+    const value = process.env[name];
+    if (value && (isNaN(parseInt(value, 10)) || parseInt(value, 10) < 1)) {
+      errors.push(`${name} must be a positive number of minutes, got: ${value}`);
+    }
+  }
+
+  try {
+    parseApiKeys(process.env.API_KEYS);
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : 'Invalid API_KEYS');
+  }
+
+  if (!process.env.AUTH_TOKEN_SECRET && !allowsDevSecrets()) {
+    errors.push('AUTH_TOKEN_SECRET is required unless NODE_ENV is development or test');
+  }
+
+  if (parseWebhookSecrets(process.env.WEBHOOK_SECRETS).length === 0) {
+    errors.push('WEBHOOK_SECRETS is required unless NODE_ENV is development or test');
+  }
+
+  if (!isMockPaymentProviderEnabled() && !process.env.PAYMENT_PROVIDER_URL) {
+    errors.push('PAYMENT_PROVIDER_URL is required when the mock payment provider is disabled');
+  }
+
+  const tolerance = process.env.WEBHOOK_TOLERANCE_SECONDS;
+  if (tolerance && (isNaN(parseInt(tolerance, 10)) || parseInt(tolerance, 10) < 1)) {
+    errors.push(`WEBHOOK_TOLERANCE_SECONDS must be a positive number of seconds, got: ${tolerance}`);
+  }
+
   if (process.env.NODE_ENV && !['development', 'production', 'test'].includes(process.env.NODE_ENV)) {
     errors.push(`NODE_ENV must be one of: development, production, test. Got: ${process.env.NODE_ENV}`);
   }
@@ -39,17 +89,35 @@ async function startServer(): Promise<void> {
   const app = express();
 
   app.use(cors());
-  app.use(express.json());
+  app.use(express.json({
+    // Webhook signatures are computed over the exact bytes received, not the re-serialized JSON
+    verify: (req, _res, buf) => {
+      (req as express.Request).rawBody = buf;
+    },
+  }));
+  app.use(authenticate);
 
   app.get('/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
+  app.use('/api', authRouter);
   app.use('/api', tripsRouter);
+  app.use('/api', tripTemplatesRouter);
+  app.use('/api', pricingRouter);
+  app.use('/api', promoCodesRouter);
+  app.use('/api', waitlistRouter);
+  app.use('/api', exchangeRatesRouter);
   app.use('/api', bookingsRouter);
+  app.use('/api', usersRouter);
   app.use('/api', paymentsRouter);
   app.use('/api', adminRouter);
 
+  if (isMockPaymentProviderEnabled()) {
+    app.use(mockPaymentProviderRouter);
+    logger.info('Mock payment provider mounted at /mock-provider');
+  }
+
   app.use((req, res) => {
     res.status(404).json({ error: 'Not found' });
   });
@@ -58,7 +126,7 @@ async function startServer(): Promise<void> {
 
   cron.schedule('* * * * *', () => {
     logger.debug('Running expiry job');
-    expirePendingBookings().catch((err) => {
+    expirePendingBookings().then(submitUnappliedRefunds).catch((err) => {
       logger.error('Expiry job failed', { error: err instanceof Error ? err.message : 'Unknown error' });
     });
   });
@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from 'express';
+import { db } from '../db/database';
+import { AuthContext, Role } from '../types';
+import { authenticateApiKey, verifyToken, hasRole } from '../utils/auth';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookRejection,
+  parseWebhookSecrets,
+  getWebhookToleranceSeconds,
+  verifyWebhookSignature,
+} from '../utils/webhookSignature';
+import { logger } from '../utils/logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * Resolves the caller from an `X-API-Key` header (services) or an `Authorization: Bearer` token
+ * (users). Requests without credentials continue anonymously; invalid credentials are rejected.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): Response | void {
+  const apiKey = req.header('x-api-key');
+  const authorization = req.header('authorization');
+
+  if (apiKey) {
+    const auth = authenticateApiKey(apiKey);
+    if (!auth) {
+      logger.warn('Rejected request with invalid API key', { path: req.path, method: req.method });
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+    req.auth = auth;
+  } else if (authorization) {
+    const [scheme, token] = authorization.split(' ');
+    const auth = scheme === 'Bearer' && token ? verifyToken(token) : null;
+    if (!auth) {
+      logger.warn('Rejected request with invalid bearer token', { path: req.path, method: req.method });
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+    req.auth = auth;
+  }
+
+  return next();
+}
+
+/**
+ * Requires an authenticated caller with at least `role` (customer < operator < admin).
+ */
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction): Response | void => {
+    if (!req.auth) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (!hasRole(req.auth, role)) {
+      return res.status(403).json({ error: `Requires ${role} role` });
+    }
+    return next();
+  };
+}
+
+/**
+ * Restricts a `/:id` route to the owner of the row (`user_id`) in `table`, or to operators.
+ * Responds 404 for unknown ids so the check can run before the handler.
+ */
+export function requireOwner(table: 'bookings' | 'waitlist_entries', notFoundMessage: string) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<Response | void> => {
+    if (!req.auth) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (hasRole(req.auth, 'operator')) {
+      return next();
+    }
+    try {
+      const row = await db.get<{ user_id: string }>(`SELECT user_id FROM ${table} WHERE id = ?`, [req.params.id]);
+      if (!row) {
+        return res.status(404).json({ error: notFoundMessage });
+      }
+      if (row.user_id !== req.auth.subject) {
+        return res.status(403).json({ error: 'Not allowed to access this resource' });
+      }
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+const WEBHOOK_REJECTION_LOGS: Record<WebhookRejection, string> = {
+  MISSING_SIGNATURE: 'Webhook rejected: missing signature header',
+  MALFORMED_SIGNATURE: 'Webhook rejected: malformed signature header',
+  INVALID_SIGNATURE: 'Webhook rejected: signature does not match any webhook secret',
+  STALE_TIMESTAMP: 'Webhook rejected: timestamp outside tolerance window (possible replay)',
+};
+
+let webhookSecrets: string[] | null = null;
+
+/**
+ * Verifies the provider's HMAC signature over the raw body (captured by express.json in index.ts).
+ * Unsigned or forged requests get a 401: they are not provider deliveries, so the webhook's
+ * always-200 contract does not apply to them.
+ */
+export function requireWebhookSignature(req: Request, res: Response, next: NextFunction): Response | void {
+  webhookSecrets = webhookSecrets || parseWebhookSecrets(process.env.WEBHOOK_SECRETS);
+  const result = verifyWebhookSignature(
+    req.header(WEBHOOK_SIGNATURE_HEADER),
+    req.rawBody || Buffer.alloc(0),
+    webhookSecrets,
+    getWebhookToleranceSeconds()
+  );
+
+  if (!result.valid) {
+    logger.warn(WEBHOOK_REJECTION_LOGS[result.reason], {
+      reason: result.reason,
+      timestamp: result.timestamp,
+      ip: req.ip,
+    });
+    return res.status(401).json({ error: 'Invalid webhook signature', reason: result.reason });
+  }
+
+  if (result.keyIndex > 0) {
+    logger.info('Webhook signed with a previous secret', { keyIndex: result.keyIndex });
+  }
+  return next();
+}
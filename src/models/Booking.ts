@@ -1,4 +1,6 @@
-import { BookingRow, BookingState, STATES } from '../types';
+import {
+  BookingRow, BookingState, CancellationOverride, CancellationReasonCode, Currency, PricingBreakdown, STATES
+} from '../types';
 
 export class Booking {
   id: string;
@@ -13,6 +15,14 @@ export class Booking {
   cancelled_at: string | null;
   refund_amount: number | null;
   idempotency_key: string | null;
+  pricing_breakdown: PricingBreakdown | null;
+  currency: Currency;
+  fx_rate: number;
+  hold_extended_at: string | null;
+  cancellation_reason_code: CancellationReasonCode | null;
+  cancellation_note: string | null;
+  cancelled_by: string | null;
+  cancellation_override: CancellationOverride | null;
   updated_at: string;
 
   constructor(data: BookingRow) {
@@ -28,6 +38,14 @@ export class Booking {
     this.cancelled_at = data.cancelled_at || null;
     this.refund_amount = data.refund_amount || null;
     this.idempotency_key = data.idempotency_key || null;
+    this.pricing_breakdown = data.pricing_breakdown || null;
+    this.currency = data.currency;
+    this.fx_rate = data.fx_rate;
+    this.hold_extended_at = data.hold_extended_at || null;
+    this.cancellation_reason_code = data.cancellation_reason_code || null;
+    this.cancellation_note = data.cancellation_note || null;
+    this.cancelled_by = data.cancelled_by || null;
+    this.cancellation_override = data.cancellation_override || null;
     this.updated_at = data.updated_at;
   }
 
@@ -44,11 +62,19 @@ export class Booking {
       num_seats: this.num_seats,
       state: this.state,
       price_at_booking: this.price_at_booking,
+      currency: this.currency,
+      fx_rate: this.fx_rate,
       payment_reference: this.payment_reference,
       created_at: this.created_at,
       expires_at: this.expires_at,
+      hold_extended_at: this.hold_extended_at,
       cancelled_at: this.cancelled_at,
       refund_amount: this.refund_amount,
+      cancellation_reason_code: this.cancellation_reason_code,
+      cancellation_note: this.cancellation_note,
+      cancelled_by: this.cancelled_by,
+      cancellation_override: this.cancellation_override,
+      pricing_breakdown: this.pricing_breakdown,
       updated_at: this.updated_at,
     };
   }
@@ -0,0 +1,43 @@
+import { PassengerRow } from '../types';
+
+export class Passenger {
+  id: string;
+  booking_id: string;
+  full_name: string;
+  date_of_birth: string;
+  nationality: string;
+  document_number: string;
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+  created_at: string;
+
+  constructor(data: PassengerRow) {
+    this.id = data.id;
+    this.booking_id = data.booking_id;
+    this.full_name = data.full_name;
+    this.date_of_birth = data.date_of_birth;
+    this.nationality = data.nationality;
+    this.document_number = data.document_number;
+    this.emergency_contact_name = data.emergency_contact_name;
+    this.emergency_contact_phone = data.emergency_contact_phone;
+    this.created_at = data.created_at;
+  }
+
+  static fromRow(row: PassengerRow | undefined): Passenger | null {
+    return row ? new Passenger(row) : null;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      full_name: this.full_name,
+      date_of_birth: this.date_of_birth,
+      nationality: this.nationality,
+      document_number: this.document_number,
+      emergency_contact: {
+        name: this.emergency_contact_name,
+        phone: this.emergency_contact_phone,
+      },
+    };
+  }
+}
@@ -1,4 +1,5 @@
-import { TripRow, TripStatus } from '../types';
+import { Currency, RefundTier, TripRow, TripStatus } from '../types';
+import { getRefundTiers } from '../utils/refundPolicy';
 
 export class Trip {
   id: string;
@@ -12,6 +13,13 @@ export class Trip {
   status: TripStatus;
   refundable_until_days_before: number;
   cancellation_fee_percent: number;
+  refund_tiers: RefundTier[] | null;
+  change_fee_percent: number;
+  hold_ttl_minutes: number | null;
+  currency: Currency;
+  cancelled_at: string | null;
+  template_id: string | null;
+  template_detached: boolean;
   created_at: string;
   updated_at: string;
 
@@ -27,6 +35,13 @@ export class Trip {
     this.status = data.status;
     this.refundable_until_days_before = data.refundable_until_days_before;
     this.cancellation_fee_percent = data.cancellation_fee_percent;
+    this.refund_tiers = data.refund_tiers || null;
+    this.change_fee_percent = data.change_fee_percent || 0;
+    this.hold_ttl_minutes = data.hold_ttl_minutes ?? null;
+    this.currency = data.currency;
+    this.cancelled_at = data.cancelled_at || null;
+    this.template_id = data.template_id || null;
+    this.template_detached = Boolean(data.template_detached);
     this.created_at = data.created_at;
     this.updated_at = data.updated_at;
   }
@@ -43,13 +58,20 @@ export class Trip {
       start_date: this.start_date,
       end_date: this.end_date,
       price: this.price,
+      currency: this.currency,
       max_capacity: this.max_capacity,
       available_seats: this.available_seats,
       status: this.status,
+      hold_ttl_minutes: this.hold_ttl_minutes,
       refund_policy: {
         refundable_until_days_before: this.refundable_until_days_before,
         cancellation_fee_percent: this.cancellation_fee_percent,
+        change_fee_percent: this.change_fee_percent,
+        tiers: getRefundTiers(this),
       },
+      cancelled_at: this.cancelled_at,
+      template_id: this.template_id,
+      template_detached: this.template_detached,
       created_at: this.created_at,
       updated_at: this.updated_at,
     };
@@ -0,0 +1,78 @@
+import { RecurrenceFrequency, TripTemplateRow } from '../types';
+
+// pg parses DATE columns into local-midnight Date objects; keep them as YYYY-MM-DD strings
+function toDateOnly(value: string | Date): string {
+  if (value instanceof Date) {
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+  return value.slice(0, 10);
+}
+
+export class TripTemplate {
+  id: string;
+  title: string;
+  destination: string;
+  duration_days: number;
+  price: number;
+  max_capacity: number;
+  refundable_until_days_before: number;
+  cancellation_fee_percent: number;
+  recurrence_frequency: RecurrenceFrequency;
+  recurrence_interval: number;
+  recurrence_weekdays: number[];
+  departure_time: string;
+  starts_on: string;
+  until: string;
+  created_at: string;
+  updated_at: string;
+
+  constructor(data: TripTemplateRow) {
+    this.id = data.id;
+    this.title = data.title;
+    this.destination = data.destination;
+    this.duration_days = data.duration_days;
+    this.price = data.price;
+    this.max_capacity = data.max_capacity;
+    this.refundable_until_days_before = data.refundable_until_days_before;
+    this.cancellation_fee_percent = data.cancellation_fee_percent;
+    this.recurrence_frequency = data.recurrence_frequency;
+    this.recurrence_interval = data.recurrence_interval;
+    this.recurrence_weekdays = data.recurrence_weekdays || [];
+    this.departure_time = data.departure_time;
+    this.starts_on = toDateOnly(data.starts_on);
+    this.until = toDateOnly(data.until);
+    this.created_at = data.created_at;
+    this.updated_at = data.updated_at;
+  }
+
+  static fromRow(row: TripTemplateRow | undefined): TripTemplate | null {
+    return row ? new TripTemplate(row) : null;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      title: this.title,
+      destination: this.destination,
+      duration_days: this.duration_days,
+      price: this.price,
+      max_capacity: this.max_capacity,
+      refund_policy: {
+        refundable_until_days_before: this.refundable_until_days_before,
+        cancellation_fee_percent: this.cancellation_fee_percent,
+      },
+      recurrence: {
+        frequency: this.recurrence_frequency,
+        interval: this.recurrence_interval,
+        weekdays: this.recurrence_weekdays,
+        departure_time: this.departure_time,
+        starts_on: this.starts_on,
+        until: this.until,
+      },
+      created_at: this.created_at,
+      updated_at: this.updated_at,
+    };
+  }
+}
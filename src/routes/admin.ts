@@ -1,21 +1,25 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query } from 'express-validator';
 import { db } from '../db/database';
-import { TripRow, TripMetricsResponse, AtRiskTripsResponse } from '../types';
+import {
+  TripRow, TripMetricsResponse, AtRiskTripsResponse, HttpError, RefundStatus, REFUND_STATUSES, CANCELLATION_REASON_CODES
+} from '../types';
 import { expirePendingBookings } from '../services/expiryService';
+import { listRefunds, retryRefund, adminCancelBooking } from '../services/refundService';
+import { getBookingLedger, getTripFinancials } from '../services/ledgerService';
+import { requireRole } from '../middleware/auth';
+import { handleValidation } from '../middleware/validation';
 
 const router = Router();
 
+router.use('/admin', requireRole('admin'));
+
 interface StateAggregation {
   state: string;
   seats: number;
   count: number;
 }
 
-interface FinancialAggregation {
-  gross: number | null;
-  refunds: number | null;
-}
-
 
 router.get('/admin/trips/:tripId/metrics', async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -40,13 +44,7 @@ router.get('/admin/trips/:tripId/metrics', async (req: Request, res: Response, n
 
       const reservedSeats = reservedSeatsResult?.total_reserved || 0;
 
-      const financial = await db.get<FinancialAggregation>(
-        `SELECT
-           SUM(CASE WHEN state IN ('CONFIRMED','CANCELLED') THEN price_at_booking ELSE 0 END) as gross,
-           SUM(COALESCE(refund_amount, 0)) as refunds
-         FROM bookings WHERE trip_id = ?`,
-        [req.params.tripId]
-      );
+      const financial = await getTripFinancials(trip);
 
       const summary = { confirmed: 0, pending_payment: 0, cancelled: 0, expired: 0 };
 
@@ -70,11 +68,7 @@ router.get('/admin/trips/:tripId/metrics', async (req: Request, res: Response, n
         booked_seats: bookedSeats,
         available_seats: Math.max(0, availableSeats),
         booking_summary: summary,
-        financial: {
-          gross_revenue: financial?.gross || 0,
-          refunds_issued: financial?.refunds || 0,
-          net_revenue: (financial?.gross || 0) - (financial?.refunds || 0),
-        },
+        financial,
       };
 
       res.json(response);
@@ -144,13 +138,7 @@ router.get('/admin/metrics', async (req: Request, res: Response, next: NextFunct
         [trip.id]
       );
 
-      const financial = await db.get<FinancialAggregation>(
-        `SELECT
-           SUM(CASE WHEN state IN ('CONFIRMED','CANCELLED') THEN price_at_booking ELSE 0 END) as gross,
-           SUM(COALESCE(refund_amount, 0)) as refunds
-       FROM bookings WHERE trip_id = ?`,
-        [trip.id]
-      );
+      const financial = await getTripFinancials(trip);
 
       const summary = { confirmed: 0, pending_payment: 0, cancelled: 0, expired: 0 };
 
@@ -172,11 +160,7 @@ router.get('/admin/metrics', async (req: Request, res: Response, next: NextFunct
         booked_seats: bookedSeats,
         available_seats: trip.available_seats,
         booking_summary: summary,
-        financial: {
-          gross_revenue: financial?.gross || 0,
-          refunds_issued: financial?.refunds || 0,
-          net_revenue: (financial?.gross || 0) - (financial?.refunds || 0),
-        },
+        financial,
       };
     }));
 
@@ -186,6 +170,84 @@ router.get('/admin/metrics', async (req: Request, res: Response, next: NextFunct
   }
 });
 
+router.get(
+  '/admin/refunds',
+  [query('status').optional().isIn(REFUND_STATUSES).withMessage(`status must be one of: ${REFUND_STATUSES.join(', ')}`)],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const refunds = await listRefunds(req.query.status as RefundStatus | undefined);
+      res.json({ refunds });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/admin/refunds/:id/retry',
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const refund = await retryRefund(req.params.id);
+      res.json({ refund });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/admin/bookings/:id/cancel',
+  [
+    param('id').isString().notEmpty(),
+    body('reason_code').isIn(CANCELLATION_REASON_CODES)
+      .withMessage(`reason_code must be one of: ${CANCELLATION_REASON_CODES.join(', ')}`),
+    body('note').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('note is required (up to 2000 characters)'),
+    body('refund_amount').optional().isFloat({ min: 0 }).withMessage('refund_amount must be a non-negative number').toFloat(),
+    body('refund_percent').optional().isFloat({ min: 0, max: 100 }).withMessage('refund_percent must be between 0 and 100').toFloat(),
+    body('release_seats').optional().isBoolean({ strict: true }).withMessage('release_seats must be a boolean'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await adminCancelBooking(req.params.id, req.body, req.auth!);
+      res.json(result);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/admin/bookings/:bookingId/ledger',
+  [param('bookingId').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const booking = await db.get<{ id: string }>('SELECT id FROM bookings WHERE id = ?', [req.params.bookingId]);
+      const entries = await getBookingLedger(req.params.bookingId);
+      // Ledger entries outlive their booking, so they are still listed once it has been deleted
+      if (!booking && entries.length === 0) {
+        return res.status(404).json({ error: 'Booking not found' });
+      }
+      res.json({ booking_id: req.params.bookingId, entries });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 router.post('/admin/expire-bookings', async (req: Request, res: Response, next: NextFunction) => {
   try {
     await expirePendingBookings();
@@ -198,6 +260,8 @@ router.post('/admin/expire-bookings', async (req: Request, res: Response, next:
 router.delete('/admin/bookings', async (req: Request, res: Response, next: NextFunction) => {
   try {
     await db.run('DELETE FROM bookings');
+    // The ledger is append-only; TRUNCATE bypasses its row-level guard triggers
+    await db.run('TRUNCATE ledger_postings, ledger_entries');
     res.json({ message: 'All bookings deleted successfully' });
   } catch (err) {
     next(err);
@@ -209,6 +273,7 @@ router.delete('/admin/trips', async (req: Request, res: Response, next: NextFunc
     // Delete bookings first due to foreign key constraint
     await db.run('DELETE FROM bookings');
     await db.run('DELETE FROM trips');
+    await db.run('TRUNCATE ledger_postings, ledger_entries');
     res.json({ message: 'All trips and bookings deleted successfully' });
   } catch (err) {
     next(err);
@@ -220,6 +285,11 @@ router.delete('/admin/clean', async (req: Request, res: Response, next: NextFunc
     // Delete bookings first due to foreign key constraint
     await db.run('DELETE FROM bookings');
     await db.run('DELETE FROM trips');
+    await db.run('DELETE FROM trip_templates');
+    await db.run('DELETE FROM promo_codes');
+    await db.run('DELETE FROM exchange_rates');
+    await db.run('DELETE FROM users');
+    await db.run('TRUNCATE ledger_postings, ledger_entries');
     res.json({ message: 'Database cleaned successfully' });
   } catch (err) {
     next(err);
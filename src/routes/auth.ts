@@ -0,0 +1,40 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import { ROLES, HttpError } from '../types';
+import { signToken } from '../utils/auth';
+import { handleValidation } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { assertUserExists } from '../services/userService';
+
+const router = Router();
+
+router.post(
+  '/auth/tokens',
+  requireRole('admin'),
+  [
+    body('user_id').isString().notEmpty().withMessage('user_id is required'),
+    body('role').optional().isIn(ROLES).withMessage(`role must be one of: ${ROLES.join(', ')}`),
+    body('expires_in_seconds').optional().isInt({ min: 60, max: 30 * 24 * 60 * 60 }).withMessage('expires_in_seconds must be between 60 and 2592000').toInt(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await assertUserExists(req.body.user_id);
+
+      const role = req.body.role || 'customer';
+      const issued = signToken(req.body.user_id, role, req.body.expires_in_seconds);
+
+      logger.info('Access token issued', { userId: req.body.user_id, role, issuedBy: req.auth!.subject });
+
+      res.status(201).json({ ...issued, user_id: req.body.user_id, role });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
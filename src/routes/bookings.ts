@@ -1,29 +1,57 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, param } from 'express-validator';
-import { createBooking, getBooking } from '../services/bookingService';
-import { cancelBookingWithRefund } from '../services/refundService';
+import { createBooking, getBooking, extendHold } from '../services/bookingService';
+import { setBookingPassengers } from '../services/passengerService';
+import { transferBooking, getBookingTransfers } from '../services/transferService';
+import {
+  cancelBookingWithRefund, cancelSeatsWithRefund, getRefundLines, getBookingRefunds, quoteRefund
+} from '../services/refundService';
+import { getBookingPayments } from '../services/paymentService';
+import { actorName, getBookingHistory } from '../services/bookingEventService';
+import { buildPaymentUrl } from '../services/mockPaymentProvider';
 import { handleValidation } from '../middleware/validation';
-import { HttpError } from '../types';
+import { requireRole, requireOwner } from '../middleware/auth';
+import { canActAs } from '../utils/auth';
+import { HttpError, CURRENCIES } from '../types';
 
 const router = Router();
 
+const passengerValidators = [
+  body('passengers.*.full_name').isString().trim().notEmpty().withMessage('passenger full_name is required'),
+  body('passengers.*.date_of_birth').isISO8601().withMessage('passenger date_of_birth must be a valid date'),
+  body('passengers.*.nationality').isISO31661Alpha2().withMessage('passenger nationality must be an ISO 3166-1 alpha-2 country code'),
+  body('passengers.*.document_number').isString().trim().notEmpty().withMessage('passenger document_number is required'),
+  body('passengers.*.emergency_contact.name').isString().trim().notEmpty().withMessage('passenger emergency_contact.name is required'),
+  body('passengers.*.emergency_contact.phone').matches(/^\+?[0-9 ()-]{6,20}$/).withMessage('passenger emergency_contact.phone must be a valid phone number'),
+];
+
 router.post(
   '/trips/:tripId/book',
+  requireRole('customer'),
   [
     param('tripId').isString().notEmpty(),
     body('user_id').isString().notEmpty(),
     body('num_seats').isInt({ min: 1 }),
+    body('promo_code').optional().isString().notEmpty().withMessage('promo_code must be a non-empty string'),
+    body('currency').optional().isIn(CURRENCIES).withMessage(`currency must be one of: ${CURRENCIES.join(', ')}`),
+    body('passengers').optional().isArray({ min: 1 }).withMessage('passengers must be a non-empty array'),
+    ...passengerValidators,
   ],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { tripId } = req.params;
-      const { user_id: userId, num_seats: numSeats } = req.body;
+      const { user_id: userId, num_seats: numSeats, promo_code: promoCode, currency, passengers } = req.body;
+      if (!canActAs(req.auth, userId)) {
+        return res.status(403).json({ error: 'Customers can only book for themselves' });
+      }
 
-      const booking = await createBooking(tripId, userId, numSeats);
-      const payment_url = `https://payments.example.com/pay/${booking.id}`;
+      const booking = await createBooking(tripId, userId, numSeats, {
+        promoCode, currency, passengers, actor: actorName(req.auth),
+      });
+      const payment_url = buildPaymentUrl(booking.id);
 
-      res.status(201).json({ booking: booking.toJSON(), payment_url });
+      res.status(201).json({ booking: booking.toJSON(), payment_url, price_breakdown: booking.pricing_breakdown });
     } catch (err) {
       if (err instanceof HttpError) {
         return res.status(err.status).json({ error: err.message });
@@ -35,18 +63,108 @@ router.post(
 
 router.get(
   '/bookings/:id',
+  requireRole('customer'),
   [param('id').isString().notEmpty()],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const booking = await getBooking(req.params.id);
-      
+      const booking = await getBooking(req.params.id, req.auth);
+
       if (!booking) {
         return res.status(404).json({ error: 'Booking not found' });
       }
-      
-      res.json(booking);
+
+      const [refundLines, transfers, payments, refunds] = await Promise.all([
+        getRefundLines(booking.id),
+        getBookingTransfers(booking.id),
+        getBookingPayments(booking.id),
+        getBookingRefunds(booking.id),
+      ]);
+      res.json({ ...booking, payments, refunds, refund_lines: refundLines, transfers });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/bookings/:id/extend-hold',
+  requireOwner('bookings', 'Booking not found'),
+  [
+    param('id').isString().notEmpty(),
+    body('minutes').optional().isInt({ min: 1 }).withMessage('minutes must be a positive integer').toInt(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const booking = await extendHold(req.params.id, req.body.minutes);
+      res.json({ booking: booking.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.put(
+  '/bookings/:id/passengers',
+  requireOwner('bookings', 'Booking not found'),
+  [
+    param('id').isString().notEmpty(),
+    body('passengers').isArray({ min: 1 }).withMessage('passengers must be a non-empty array'),
+    ...passengerValidators,
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const passengers = await setBookingPassengers(req.params.id, req.body.passengers, req.auth);
+      res.json({ booking_id: req.params.id, passengers: passengers.map((passenger) => passenger.toJSON()) });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/bookings/:id/history',
+  requireRole('customer'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const history = await getBookingHistory(req.params.id, req.auth);
+      res.json(history);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+// Dry run of POST /bookings/:id/cancel: nothing is written
+router.get(
+  '/bookings/:id/refund-quote',
+  requireRole('customer'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const quote = await quoteRefund(req.params.id, req.auth);
+      res.json(quote);
     } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
       next(err);
     }
   }
@@ -54,11 +172,12 @@ router.get(
 
 router.post(
   '/bookings/:id/cancel',
+  requireRole('customer'),
   [param('id').isString().notEmpty()],
   handleValidation,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const updated = await cancelBookingWithRefund(req.params.id);
+      const updated = await cancelBookingWithRefund(req.params.id, req.auth);
       res.json(updated);
     } catch (err) {
       if (err instanceof HttpError) {
@@ -69,4 +188,49 @@ router.post(
   }
 );
 
+router.post(
+  '/bookings/:id/partial-cancel',
+  requireOwner('bookings', 'Booking not found'),
+  [
+    param('id').isString().notEmpty(),
+    body('num_seats').isInt({ min: 1 }).withMessage('num_seats must be a positive integer').toInt(),
+    body('passenger_ids').optional().isArray().withMessage('passenger_ids must be an array'),
+    body('passenger_ids.*').isString().notEmpty().withMessage('passenger_ids must contain passenger ids'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await cancelSeatsWithRefund(req.params.id, req.body.num_seats, req.body.passenger_ids);
+      res.json(result);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/bookings/:id/change-trip',
+  requireOwner('bookings', 'Booking not found'),
+  [
+    param('id').isString().notEmpty(),
+    body('trip_id').isString().notEmpty().withMessage('trip_id of the target trip is required'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await transferBooking(req.params.id, req.body.trip_id);
+      const payment_url = result.transfer.status === 'AWAITING_PAYMENT' ? buildPaymentUrl(result.booking.id) : null;
+      res.json({ ...result, payment_url });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
 export default router;
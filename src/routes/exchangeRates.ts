@@ -0,0 +1,42 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body } from 'express-validator';
+import { HttpError, CURRENCIES } from '../types';
+import { createExchangeRate, listExchangeRates } from '../services/fxService';
+import { handleValidation } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/exchange-rates', requireRole('operator'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rates = await listExchangeRates();
+    res.json({ exchange_rates: rates });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post(
+  '/exchange-rates',
+  requireRole('operator'),
+  [
+    body('base_currency').isIn(CURRENCIES).withMessage(`base_currency must be one of: ${CURRENCIES.join(', ')}`),
+    body('quote_currency').isIn(CURRENCIES).withMessage(`quote_currency must be one of: ${CURRENCIES.join(', ')}`),
+    body('rate').isFloat({ gt: 0 }).withMessage('rate must be a positive number'),
+    body('effective_from').optional().isISO8601().withMessage('effective_from must be a valid ISO 8601 date'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rate = await createExchangeRate(req.body);
+      res.status(201).json({ exchange_rate: rate });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,113 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { HttpError } from '../types';
+import {
+  MOCK_PROVIDER_PATH,
+  MOCK_PAYMENT_OUTCOMES,
+  MockPaymentOutcome,
+  MockPaymentResult,
+  MockRefundOutcome,
+  CheckoutBooking,
+  getCheckoutBooking,
+  simulatePayment,
+  simulateRefund,
+} from '../services/mockPaymentProvider';
+
+const router = Router();
+
+// The checkout page submits a plain HTML form
+router.use(MOCK_PROVIDER_PATH, express.urlencoded({ extended: false }));
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: sans-serif; max-width: 32rem; margin: 3rem auto;">
+<p><strong>Mock payment provider</strong> &mdash; no real money is moved.</p>
+${body}
+</body>
+</html>`;
+}
+
+function renderCheckout(booking: CheckoutBooking): string {
+  const buttons = MOCK_PAYMENT_OUTCOMES.map((outcome) =>
+    `<button type="submit" name="outcome" value="${outcome}">${outcome === 'success' ? 'Pay' : `Simulate ${outcome}`}</button>`
+  ).join('\n  ');
+  return renderPage('Checkout', `<h1>${escapeHtml(booking.title)}</h1>
+<p>Booking <code>${escapeHtml(booking.id)}</code> &middot; ${escapeHtml(booking.num_seats)} seat(s)</p>
+<p>Amount due: <strong>${escapeHtml(booking.amount_due ?? 0)} ${escapeHtml(booking.currency)}</strong></p>
+<p>Status: ${escapeHtml(booking.state)}</p>
+<form method="post">
+  ${buttons}
+</form>`);
+}
+
+function renderResult(bookingId: string, result: MockPaymentResult): string {
+  const detail = result.webhook
+    ? `<p>Webhook answered ${result.webhook.status}:</p><pre>${escapeHtml(JSON.stringify(result.webhook.response, null, 2))}</pre>`
+    : '<p>No webhook was sent. The booking stays pending until its payment hold expires.</p>';
+  return renderPage('Payment result', `<h1>Payment ${escapeHtml(result.outcome)}</h1>
+${detail}
+<p><a href="${MOCK_PROVIDER_PATH}/pay/${escapeHtml(bookingId)}">Back to checkout</a></p>`);
+}
+
+router.get(`${MOCK_PROVIDER_PATH}/pay/:bookingId`, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const booking = await getCheckoutBooking(req.params.bookingId);
+    res.type('html').send(renderCheckout(booking));
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).type('html').send(renderPage('Checkout', `<p>${escapeHtml(err.message)}</p>`));
+    }
+    next(err);
+  }
+});
+
+// Browsers get a result page; API clients (tests, scripts) asking for JSON get the webhook exchange
+router.post(`${MOCK_PROVIDER_PATH}/pay/:bookingId`, async (req: Request, res: Response, next: NextFunction) => {
+  const { bookingId } = req.params;
+  try {
+    const result = await simulatePayment(bookingId, req.body?.outcome as MockPaymentOutcome);
+    res.format({
+      json: () => res.json(result),
+      html: () => res.send(renderResult(bookingId, result)),
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).format({
+        json: () => res.json({ error: err.message }),
+        html: () => res.send(renderPage('Payment result', `<p>${escapeHtml(err.message)}</p>`)),
+      });
+    }
+    next(err);
+  }
+});
+
+// Refunds submitted to the provider are settled here, as the provider's back office would
+router.post(`${MOCK_PROVIDER_PATH}/refunds/:refundId`, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await simulateRefund(req.params.refundId, req.body?.outcome as MockRefundOutcome);
+    res.format({
+      json: () => res.json(result),
+      html: () => res.send(renderPage('Refund result', `<h1>Refund ${escapeHtml(result.outcome)}</h1>
+<p>Webhook answered ${result.webhook.status}:</p><pre>${escapeHtml(JSON.stringify(result.webhook.response, null, 2))}</pre>`)),
+    });
+  } catch (err) {
+    if (err instanceof HttpError) {
+      return res.status(err.status).format({
+        json: () => res.json({ error: err.message }),
+        html: () => res.send(renderPage('Refund result', `<p>${escapeHtml(err.message)}</p>`)),
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -1,16 +1,49 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, validationResult } from 'express-validator';
-import { processWebhook } from '../services/paymentService';
+import { processWebhook, processRefundWebhook } from '../services/paymentService';
+import { requireWebhookSignature } from '../middleware/auth';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+// Refund events share the payment webhook endpoint (and its signature check) and are told apart by
+// `type: "refund"`. They follow the same always-200 contract.
+async function handleRefundWebhook(req: Request, res: Response): Promise<Response> {
+  const { refund_reference, status, failure_reason } = req.body;
+
+  if (!refund_reference || !status) {
+    logger.warn('Missing required refund webhook fields', { body: req.body });
+    return res.status(200).json({ error: 'Missing required fields: refund_reference and status are required' });
+  }
+
+  try {
+    logger.info('Received refund webhook', { refund_reference, status });
+    const result = await processRefundWebhook(refund_reference, status, failure_reason);
+    return res.status(200).json(result);
+  } catch (err) {
+    logger.error('Refund webhook processing error', {
+      error: err instanceof Error ? err.message : 'Unknown error',
+      body: req.body,
+    });
+    return res.status(200).json({
+      error: 'Processing error',
+      detail: err instanceof Error ? err.message : 'Unknown error',
+    });
+  }
+}
+
 router.post(
   '/payments/webhook',
+  requireWebhookSignature,
   [
     body('booking_id').optional().isString(),
     body('status').optional().isString(),
     body('idempotency_key').optional().isString(),
+    body('amount').optional().isFloat({ min: 0 }),
+    body('currency').optional().isString(),
+    body('failure_reason').optional().isString(),
+    body('type').optional().isIn(['payment', 'refund']),
+    body('refund_reference').optional().isString(),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     const errors = validationResult(req);
@@ -19,7 +52,11 @@ router.post(
       return res.status(200).json({ error: 'Invalid webhook payload', errors: errors.array() });
     }
 
-    const { booking_id, status, idempotency_key } = req.body;
+    if (req.body.type === 'refund') {
+      return handleRefundWebhook(req, res);
+    }
+
+    const { booking_id, status, idempotency_key, amount, currency, failure_reason } = req.body;
 
     if (!booking_id || !status || !idempotency_key) {
       logger.warn('Missing required webhook fields', { body: req.body });
@@ -34,9 +71,18 @@ router.post(
       return res.status(200).json({ error: 'Invalid status. Must be "success" or "failed"' });
     }
 
+    if (normalizedStatus === 'success' && amount === undefined) {
+      logger.warn('Missing amount in successful payment webhook', { body: req.body });
+      return res.status(200).json({ error: 'Missing required field: amount is required for successful payments' });
+    }
+
     try {
-      logger.info('Received payment webhook', { booking_id, status, idempotency_key });
-      const result = await processWebhook(booking_id, status, idempotency_key);
+      logger.info('Received payment webhook', { booking_id, status, idempotency_key, amount, currency });
+      const result = await processWebhook(booking_id, status, idempotency_key, {
+        amount: amount === undefined ? undefined : Number(amount),
+        currency,
+        failure_reason,
+      });
       res.status(200).json(result);
     } catch (err) {
       logger.error('Webhook processing error', {
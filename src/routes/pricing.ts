@@ -0,0 +1,87 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query } from 'express-validator';
+import { HttpError, CURRENCIES, Currency } from '../types';
+import { getPricingRules, createPricingRule, deletePricingRule, quotePrice } from '../services/pricingService';
+import { handleValidation } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.get(
+  '/trips/:tripId/pricing-rules',
+  requireRole('operator'),
+  [param('tripId').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rules = await getPricingRules(req.params.tripId);
+      res.json({ pricing_rules: rules });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/trips/:tripId/pricing-rules',
+  requireRole('operator'),
+  [
+    param('tripId').isString().notEmpty(),
+    body('rule_type').isIn(['EARLY_BIRD', 'OCCUPANCY', 'GROUP']).withMessage('rule_type must be one of: EARLY_BIRD, OCCUPANCY, GROUP'),
+    body('threshold').isInt({ min: 0 }).withMessage('threshold must be a non-negative integer'),
+    body('adjustment_percent').isFloat({ min: -99.99, max: 100 }).withMessage('adjustment_percent must be between -99.99 and 100'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const rule = await createPricingRule(req.params.tripId, req.body);
+      res.status(201).json({ pricing_rule: rule });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.delete(
+  '/trips/:tripId/pricing-rules/:ruleId',
+  requireRole('operator'),
+  [param('tripId').isString().notEmpty(), param('ruleId').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await deletePricingRule(req.params.tripId, req.params.ruleId);
+      res.json({ message: 'Pricing rule deleted successfully' });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/trips/:tripId/quote',
+  [
+    param('tripId').isString().notEmpty(),
+    query('num_seats').isInt({ min: 1 }).withMessage('num_seats must be a positive integer').toInt(),
+    query('currency').optional().isIn(CURRENCIES).withMessage(`currency must be one of: ${CURRENCIES.join(', ')}`),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const quote = await quotePrice(req.params.tripId, Number(req.query.num_seats), req.query.currency as Currency | undefined);
+      res.json({ quote });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param } from 'express-validator';
+import { HttpError } from '../types';
+import { createPromoCode, listPromoCodes, deactivatePromoCode } from '../services/promoService';
+import { handleValidation } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/promo-codes', requireRole('operator'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const promoCodes = await listPromoCodes();
+    res.json({ promo_codes: promoCodes });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post(
+  '/promo-codes',
+  requireRole('operator'),
+  [
+    body('code').isString().notEmpty().withMessage('code is required'),
+    body('discount_type').isIn(['PERCENT', 'FIXED']).withMessage('discount_type must be either PERCENT or FIXED'),
+    body('discount_value').isFloat({ gt: 0 }).withMessage('discount_value must be a positive number'),
+    body('trip_id').optional({ values: 'null' }).isString().notEmpty(),
+    body('valid_from').isISO8601().withMessage('valid_from must be a valid ISO 8601 date'),
+    body('valid_until').isISO8601().withMessage('valid_until must be a valid ISO 8601 date'),
+    body('max_redemptions').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('max_redemptions must be a positive integer'),
+    body('max_redemptions_per_user').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('max_redemptions_per_user must be a positive integer'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const promoCode = await createPromoCode(req.body);
+      res.status(201).json({ promo_code: promoCode });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/promo-codes/:id/deactivate',
+  requireRole('operator'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const promoCode = await deactivatePromoCode(req.params.id);
+      res.json({ promo_code: promoCode });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
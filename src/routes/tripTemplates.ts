@@ -0,0 +1,154 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param } from 'express-validator';
+import { HttpError } from '../types';
+import {
+  createTemplate,
+  listTemplates,
+  getTemplateWithDepartures,
+  updateTemplate,
+  generateDepartures,
+  detachDeparture,
+} from '../services/tripTemplateService';
+import { handleValidation } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.get('/trip-templates', requireRole('operator'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const templates = await listTemplates();
+    res.json({ templates: templates.map((template) => template.toJSON()) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post(
+  '/trip-templates',
+  requireRole('operator'),
+  [
+    body('title').isString().notEmpty().withMessage('title is required'),
+    body('destination').isString().notEmpty().withMessage('destination is required'),
+    body('duration_days').isInt({ min: 1 }).withMessage('duration_days must be a positive integer'),
+    body('price').isFloat({ min: 0.01 }).withMessage('price must be a positive number'),
+    body('max_capacity').isInt({ min: 1 }).withMessage('max_capacity must be a positive integer'),
+    body('refundable_until_days_before').isInt({ min: 0 }).withMessage('refundable_until_days_before must be a non-negative integer'),
+    body('cancellation_fee_percent').isInt({ min: 0, max: 100 }).withMessage('cancellation_fee_percent must be between 0 and 100'),
+    body('recurrence_frequency').isIn(['DAILY', 'WEEKLY']).withMessage('recurrence_frequency must be either DAILY or WEEKLY'),
+    body('recurrence_interval').optional().isInt({ min: 1 }).withMessage('recurrence_interval must be a positive integer'),
+    body('recurrence_weekdays').optional().isArray().withMessage('recurrence_weekdays must be an array'),
+    body('recurrence_weekdays.*').isInt({ min: 0, max: 6 }).withMessage('recurrence_weekdays must contain integers between 0 and 6'),
+    body('departure_time').optional().matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('departure_time must be in HH:MM format'),
+    body('starts_on').isISO8601().withMessage('starts_on must be a valid date'),
+    body('until').isISO8601().withMessage('until must be a valid date'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const template = await createTemplate(req.body);
+      res.status(201).json({ template: template.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/trip-templates/:id',
+  requireRole('operator'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { template, departures } = await getTemplateWithDepartures(req.params.id);
+      res.json({ template: template.toJSON(), departures: departures.map((trip) => trip.toJSON()) });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.patch(
+  '/trip-templates/:id',
+  requireRole('operator'),
+  [
+    param('id').isString().notEmpty(),
+    body('title').optional().isString().notEmpty().withMessage('title must be a non-empty string'),
+    body('destination').optional().isString().notEmpty().withMessage('destination must be a non-empty string'),
+    body('duration_days').optional().isInt({ min: 1 }).withMessage('duration_days must be a positive integer'),
+    body('price').optional().isFloat({ min: 0.01 }).withMessage('price must be a positive number'),
+    body('max_capacity').optional().isInt({ min: 1 }).withMessage('max_capacity must be a positive integer'),
+    body('refundable_until_days_before').optional().isInt({ min: 0 }).withMessage('refundable_until_days_before must be a non-negative integer'),
+    body('cancellation_fee_percent').optional().isInt({ min: 0, max: 100 }).withMessage('cancellation_fee_percent must be between 0 and 100'),
+    body('recurrence_frequency').optional().isIn(['DAILY', 'WEEKLY']).withMessage('recurrence_frequency must be either DAILY or WEEKLY'),
+    body('recurrence_interval').optional().isInt({ min: 1 }).withMessage('recurrence_interval must be a positive integer'),
+    body('recurrence_weekdays').optional().isArray().withMessage('recurrence_weekdays must be an array'),
+    body('recurrence_weekdays.*').isInt({ min: 0, max: 6 }).withMessage('recurrence_weekdays must contain integers between 0 and 6'),
+    body('departure_time').optional().matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('departure_time must be in HH:MM format'),
+    body('starts_on').optional().isISO8601().withMessage('starts_on must be a valid date'),
+    body('until').optional().isISO8601().withMessage('until must be a valid date'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const template = await updateTemplate(req.params.id, req.body);
+      res.json({ template: template.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/trip-templates/:id/generate',
+  requireRole('operator'),
+  [
+    param('id').isString().notEmpty(),
+    body('status').optional().isIn(['DRAFT', 'PUBLISHED']).withMessage('status must be either DRAFT or PUBLISHED'),
+    body('regenerate').optional().isBoolean().withMessage('regenerate must be a boolean'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await generateDepartures(req.params.id, {
+        status: req.body.status,
+        regenerate: req.body.regenerate === true,
+      });
+      res.json(result);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/trips/:id/detach',
+  requireRole('operator'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const trip = await detachDeparture(req.params.id);
+      res.json({ trip: trip.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
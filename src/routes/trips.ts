@@ -1,43 +1,52 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { body } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { db } from '../db/database';
-import { TripRow, HttpError } from '../types';
-import { createTrip } from '../services/tripService';
+import { TripRow, HttpError, TRIP_STATUSES, CURRENCIES, TripSearchFilters } from '../types';
+import { createTrip, searchTrips, updateTrip, setTripStatus, cancelTrip } from '../services/tripService';
 import { handleValidation } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+import { hasRole } from '../utils/auth';
+import { MAX_REFUND_TIERS } from '../utils/refundPolicy';
 
 const router = Router();
 
-router.get('/trips', async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { status, destination } = req.query;
-    
-    let query = 'SELECT * FROM trips WHERE 1=1';
-    const params: string[] = [];
-    
-    if (status && (status === 'DRAFT' || status === 'PUBLISHED')) {
-      query += ' AND status = ?';
-      params.push(status as string);
-    } else if (!status) {
-      query += ' AND status = ?';
-      params.push('PUBLISHED');
+router.get(
+  '/trips',
+  [
+    query('status').optional().isIn(TRIP_STATUSES).withMessage(`status must be one of: ${TRIP_STATUSES.join(', ')}`),
+    query('destination').optional().isString(),
+    query('q').optional().isString().notEmpty().withMessage('q must be a non-empty string'),
+    query('min_price').optional().isFloat({ min: 0 }).withMessage('min_price must be a non-negative number').toFloat(),
+    query('max_price').optional().isFloat({ min: 0 }).withMessage('max_price must be a non-negative number').toFloat(),
+    query('start_from').optional().isISO8601().withMessage('start_from must be a valid ISO 8601 date'),
+    query('start_to').optional().isISO8601().withMessage('start_to must be a valid ISO 8601 date'),
+    query('min_seats').optional().isInt({ min: 0 }).withMessage('min_seats must be a non-negative integer').toInt(),
+    query('sort').optional().isIn(['price', 'start_date', 'available_seats']).withMessage('sort must be one of: price, start_date, available_seats'),
+    query('order').optional().isIn(['asc', 'desc']).withMessage('order must be either asc or desc'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+    query('cursor').optional().isString().notEmpty(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const filters = req.query as TripSearchFilters;
+    if (filters.status && filters.status !== 'PUBLISHED' && !hasRole(req.auth, 'operator')) {
+      return res.status(403).json({ error: 'Requires operator role to list unpublished trips' });
     }
-    
-    if (destination) {
-      query += ' AND destination LIKE ?';
-      params.push(`%${destination}%`);
+    try {
+      const result = await searchTrips(filters);
+      res.json(result);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
     }
-    
-    query += ' ORDER BY start_date ASC';
-    
-    const trips = await db.all<TripRow>(query, params);
-    res.json({ trips });
-  } catch (err) {
-    next(err);
   }
-});
+);
 
 router.post(
   '/trips',
+  requireRole('operator'),
   [
     body('title').isString().notEmpty().withMessage('title is required'),
     body('destination').isString().notEmpty().withMessage('destination is required'),
@@ -45,8 +54,17 @@ router.post(
     body('end_date').isISO8601().withMessage('end_date must be a valid ISO 8601 date'),
     body('price').isFloat({ min: 0.01 }).withMessage('price must be a positive number'),
     body('max_capacity').isInt({ min: 1 }).withMessage('max_capacity must be a positive integer'),
-    body('refundable_until_days_before').isInt({ min: 0 }).withMessage('refundable_until_days_before must be a non-negative integer'),
-    body('cancellation_fee_percent').isInt({ min: 0, max: 100 }).withMessage('cancellation_fee_percent must be between 0 and 100'),
+    body('refundable_until_days_before').if(body('refund_tiers').not().exists())
+      .isInt({ min: 0 }).withMessage('refundable_until_days_before must be a non-negative integer'),
+    body('cancellation_fee_percent').if(body('refund_tiers').not().exists())
+      .isInt({ min: 0, max: 100 }).withMessage('cancellation_fee_percent must be between 0 and 100'),
+    body('refund_tiers').optional().isArray({ min: 1, max: MAX_REFUND_TIERS })
+      .withMessage(`refund_tiers must list between 1 and ${MAX_REFUND_TIERS} tiers`),
+    body('refund_tiers.*.days_before').isInt({ min: 0 }).withMessage('refund_tiers days_before must be a non-negative integer'),
+    body('refund_tiers.*.refund_percent').isInt({ min: 0, max: 100 }).withMessage('refund_tiers refund_percent must be between 0 and 100'),
+    body('change_fee_percent').optional().isInt({ min: 0, max: 100 }).withMessage('change_fee_percent must be between 0 and 100'),
+    body('hold_ttl_minutes').optional().isInt({ min: 1 }).withMessage('hold_ttl_minutes must be a positive integer'),
+    body('currency').optional().isIn(CURRENCIES).withMessage(`currency must be one of: ${CURRENCIES.join(', ')}`),
     body('status').optional().isIn(['DRAFT', 'PUBLISHED']).withMessage('status must be either DRAFT or PUBLISHED'),
   ],
   handleValidation,
@@ -77,4 +95,112 @@ router.get('/trips/:id', async (req: Request, res: Response, next: NextFunction)
   }
 });
 
+router.patch(
+  '/trips/:id',
+  requireRole('operator'),
+  [
+    param('id').isString().notEmpty(),
+    body('title').optional().isString().notEmpty().withMessage('title must be a non-empty string'),
+    body('destination').optional().isString().notEmpty().withMessage('destination must be a non-empty string'),
+    body('start_date').optional().isISO8601().withMessage('start_date must be a valid ISO 8601 date'),
+    body('end_date').optional().isISO8601().withMessage('end_date must be a valid ISO 8601 date'),
+    body('price').optional().isFloat({ min: 0.01 }).withMessage('price must be a positive number'),
+    body('max_capacity').optional().isInt({ min: 1 }).withMessage('max_capacity must be a positive integer'),
+    body('refundable_until_days_before').optional().isInt({ min: 0 }).withMessage('refundable_until_days_before must be a non-negative integer'),
+    body('cancellation_fee_percent').optional().isInt({ min: 0, max: 100 }).withMessage('cancellation_fee_percent must be between 0 and 100'),
+    body('refund_tiers').optional({ values: 'null' }).isArray({ min: 1, max: MAX_REFUND_TIERS })
+      .withMessage(`refund_tiers must list between 1 and ${MAX_REFUND_TIERS} tiers, or be null`),
+    body('refund_tiers.*.days_before').isInt({ min: 0 }).withMessage('refund_tiers days_before must be a non-negative integer'),
+    body('refund_tiers.*.refund_percent').isInt({ min: 0, max: 100 }).withMessage('refund_tiers refund_percent must be between 0 and 100'),
+    body('change_fee_percent').optional().isInt({ min: 0, max: 100 }).withMessage('change_fee_percent must be between 0 and 100'),
+    body('hold_ttl_minutes').optional({ values: 'null' }).isInt({ min: 1 }).withMessage('hold_ttl_minutes must be a positive integer or null'),
+    body('currency').optional().isIn(CURRENCIES).withMessage(`currency must be one of: ${CURRENCIES.join(', ')}`),
+    body('status').not().exists().withMessage('status cannot be patched. Use the publish or unpublish actions'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const trip = await updateTrip(req.params.id, req.body);
+      res.json({ trip: trip.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/trips/:id/publish',
+  requireRole('operator'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const trip = await setTripStatus(req.params.id, 'PUBLISHED');
+      res.json({ trip: trip.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/trips/:id/unpublish',
+  requireRole('operator'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const trip = await setTripStatus(req.params.id, 'DRAFT');
+      res.json({ trip: trip.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/trips/:id/archive',
+  requireRole('operator'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const trip = await setTripStatus(req.params.id, 'ARCHIVED');
+      res.json({ trip: trip.toJSON() });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.post(
+  '/trips/:id/cancel',
+  requireRole('operator'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const summary = await cancelTrip(req.params.id, req.auth);
+      res.json(summary);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,109 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query } from 'express-validator';
+import { HttpError, STATES, UserBookingFilters } from '../types';
+import { listUserBookings } from '../services/bookingService';
+import { createUser, getUser, updateUser } from '../services/userService';
+import { handleValidation } from '../middleware/validation';
+import { requireRole } from '../middleware/auth';
+import { canActAs } from '../utils/auth';
+
+const router = Router();
+
+const BOOKING_STATES = Object.values(STATES);
+
+router.post(
+  '/users',
+  [
+    body('name').isString().trim().notEmpty().withMessage('name is required'),
+    body('email').isEmail().withMessage('email must be a valid email address'),
+    body('phone').optional({ values: 'null' }).matches(/^\+?[0-9 ()-]{6,20}$/).withMessage('phone must be a valid phone number'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await createUser(req.body);
+      res.status(201).json({ user });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/users/:userId',
+  requireRole('customer'),
+  [param('userId').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!canActAs(req.auth, req.params.userId)) {
+      return res.status(403).json({ error: 'Not allowed to access this resource' });
+    }
+    try {
+      const user = await getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json({ user });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+router.patch(
+  '/users/:userId',
+  requireRole('customer'),
+  [
+    param('userId').isString().notEmpty(),
+    body('name').optional().isString().trim().notEmpty().withMessage('name must be a non-empty string'),
+    body('email').optional().isEmail().withMessage('email must be a valid email address'),
+    body('phone').optional({ values: 'null' }).matches(/^\+?[0-9 ()-]{6,20}$/).withMessage('phone must be a valid phone number'),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!canActAs(req.auth, req.params.userId)) {
+      return res.status(403).json({ error: 'Not allowed to access this resource' });
+    }
+    try {
+      const user = await updateUser(req.params.userId, req.body);
+      res.json({ user });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/users/:userId/bookings',
+  requireRole('customer'),
+  [
+    param('userId').isString().notEmpty(),
+    query('state').optional().isIn(BOOKING_STATES).withMessage(`state must be one of: ${BOOKING_STATES.join(', ')}`),
+    query('when').optional().isIn(['upcoming', 'past']).withMessage('when must be either upcoming or past'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+    query('cursor').optional().isString().notEmpty(),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!canActAs(req.auth, req.params.userId)) {
+      return res.status(403).json({ error: 'Not allowed to access this resource' });
+    }
+    try {
+      const result = await listUserBookings(req.params.userId, req.query as UserBookingFilters);
+      res.json(result);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,89 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param } from 'express-validator';
+import { HttpError } from '../types';
+import { joinWaitlist, getWaitlist, getWaitlistEntry, leaveWaitlist } from '../services/waitlistService';
+import { handleValidation } from '../middleware/validation';
+import { requireRole, requireOwner } from '../middleware/auth';
+import { canActAs } from '../utils/auth';
+
+const router = Router();
+
+router.post(
+  '/trips/:tripId/waitlist',
+  requireRole('customer'),
+  [
+    param('tripId').isString().notEmpty(),
+    body('user_id').isString().notEmpty(),
+    body('num_seats').isInt({ min: 1 }),
+  ],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!canActAs(req.auth, req.body.user_id)) {
+      return res.status(403).json({ error: 'Customers can only join the waitlist for themselves' });
+    }
+    try {
+      const entry = await joinWaitlist(req.params.tripId, req.body.user_id, req.body.num_seats);
+      res.status(201).json({ waitlist_entry: entry });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/trips/:tripId/waitlist',
+  requireRole('operator'),
+  [param('tripId').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entries = await getWaitlist(req.params.tripId);
+      res.json({ waitlist: entries });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+router.get(
+  '/waitlist/:id',
+  requireOwner('waitlist_entries', 'Waitlist entry not found'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entry = await getWaitlistEntry(req.params.id);
+
+      if (!entry) {
+        return res.status(404).json({ error: 'Waitlist entry not found' });
+      }
+
+      res.json(entry);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+router.delete(
+  '/waitlist/:id',
+  requireOwner('waitlist_entries', 'Waitlist entry not found'),
+  [param('id').isString().notEmpty()],
+  handleValidation,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const entry = await leaveWaitlist(req.params.id);
+      res.json(entry);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      next(err);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,203 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import {
+  HttpError, AuthContext, BookingRow, BookingState, BookingEvent, BookingEventRow, BookingEventSource, EVENTS, RefundRow
+} from '../types';
+import { assertTransition, BookingEffect, GuardInput } from '../utils/stateMachine';
+import { assertCanActAs } from '../utils/auth';
+import { logger } from '../utils/logger';
+import { releaseSeats } from './seatService';
+import { refundUnappliedPayments, settleCancellation } from './refundService';
+
+export const SYSTEM_ACTOR = 'system';
+export const PAYMENT_PROVIDER_ACTOR = 'payment_provider';
+
+export interface TransitionContext {
+  actor: string;
+  source: BookingEventSource;
+  nowIso: string;
+}
+
+export interface TransitionOptions {
+  // Facts the transition's guards need besides the booking; `now` defaults to context.nowIso
+  facts?: Omit<GuardInput, 'booking' | 'now'>;
+  // Other booking columns written in the same UPDATE. Column names come from our code, never from requests.
+  changes?: Record<string, unknown>;
+  // Effects the caller decided on explicitly: false skips a declared effect, true runs an undeclared
+  // one (e.g. an admin's release_seats against the refund policy)
+  effectOverrides?: Partial<Record<BookingEffect, boolean>>;
+  // What refundCancellation pays back and keeps; required by transitions that declare it
+  settlement?: CancellationSettlement;
+}
+
+export interface CancellationSettlement {
+  refundAmount: number;
+  feeRetained: number;
+  feeDescription: string;
+  refundLineId?: string | null;
+}
+
+// What effects act on: the seats being given up and, for refunds, the settlement
+export interface EffectTarget {
+  seats: number;
+  settlement?: CancellationSettlement;
+}
+
+export interface AppliedEffects {
+  seatsReleased: number;
+  // Refunds requested by refundCancellation, to submit once the transaction commits
+  refunds: RefundRow[];
+}
+
+export interface AppliedTransition extends AppliedEffects {
+  booking: BookingRow;
+}
+
+type EffectHook = (
+  tx: TransactionDatabase, booking: BookingRow, target: EffectTarget, context: TransitionContext
+) => Promise<RefundRow[] | void>;
+
+const EFFECT_HOOKS: Record<BookingEffect, EffectHook> = {
+  releaseSeats: (tx, booking, target, context) => releaseSeats(tx, booking.trip_id, target.seats, context.nowIso),
+  refundCancellation: (tx, booking, target, context) => {
+    if (!target.settlement) {
+      throw new Error(`refundCancellation on booking ${booking.id} needs a settlement`);
+    }
+    return settleCancellation(tx, booking, target.settlement, context.nowIso);
+  },
+  refundUnappliedPayments: (tx, booking, target, context) => refundUnappliedPayments(tx, booking, context.nowIso),
+};
+
+/** The effects that run: the declared ones, adjusted by the caller's explicit overrides. */
+export function selectEffects(
+  declared: BookingEffect[],
+  overrides: Partial<Record<BookingEffect, boolean>> = {}
+): BookingEffect[] {
+  return (Object.keys(EFFECT_HOOKS) as BookingEffect[])
+    .filter((effect) => overrides[effect] ?? declared.includes(effect));
+}
+
+/**
+ * Runs effects on the caller's transaction. Used by transitionBooking and by changes that follow a
+ * transition's effects without changing state, such as cancelling some of a booking's seats.
+ */
+export async function applyEffects(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  effects: BookingEffect[],
+  target: EffectTarget,
+  context: TransitionContext
+): Promise<AppliedEffects> {
+  const refunds: RefundRow[] = [];
+  for (const effect of effects) {
+    const requested = await EFFECT_HOOKS[effect](tx, booking, target, context);
+    if (requested) {
+      refunds.push(...requested);
+    }
+  }
+  return { seatsReleased: effects.includes('releaseSeats') ? target.seats : 0, refunds };
+}
+
+export interface BookingHistory {
+  booking_id: string;
+  state: BookingState;
+  events: BookingEventRow[];
+}
+
+export function actorName(auth?: AuthContext): string {
+  return auth ? auth.subject : SYSTEM_ACTOR;
+}
+
+async function recordEvent(
+  tx: TransactionDatabase,
+  bookingId: string,
+  fromState: BookingState | null,
+  toState: BookingState,
+  event: BookingEvent,
+  context: TransitionContext
+): Promise<BookingEventRow> {
+  const row = await tx.get<BookingEventRow>(
+    `INSERT INTO booking_events (id, booking_id, from_state, to_state, event, actor, source, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [uuidv4(), bookingId, fromState, toState, event, context.actor, context.source, context.nowIso]
+  );
+  return row!;
+}
+
+export async function recordBookingCreated(
+  tx: TransactionDatabase,
+  booking: Pick<BookingRow, 'id' | 'state'>,
+  context: TransitionContext
+): Promise<BookingEventRow> {
+  return recordEvent(tx, booking.id, null, booking.state, EVENTS.CREATE, context);
+}
+
+/**
+ * The only way a booking changes state. The state machine checks the event's guards and picks the
+ * next state; the booking is updated, the change recorded and the transition's effects run, all on
+ * the caller's transaction. The caller must hold the booking row lock; the state check in the
+ * WHERE clause only guards against a caller that read a stale row.
+ */
+export async function transitionBooking(
+  tx: TransactionDatabase,
+  booking: Pick<BookingRow, 'id' | 'state' | 'expires_at' | 'idempotency_key'>,
+  event: BookingEvent,
+  context: TransitionContext,
+  options: TransitionOptions = {}
+): Promise<AppliedTransition> {
+  const definition = assertTransition(event, { ...options.facts, booking, now: new Date(context.nowIso) });
+
+  const columns = { ...options.changes, state: definition.to, updated_at: context.nowIso };
+  const updated = await tx.get<BookingRow>(
+    `UPDATE bookings
+     SET ${Object.keys(columns).map((column) => `${column} = ?`).join(', ')}
+     WHERE id = ? AND state = ?
+     RETURNING *`,
+    [...Object.values(columns), booking.id, booking.state]
+  );
+  if (!updated) {
+    throw new HttpError(409, `Booking is no longer ${booking.state}`);
+  }
+
+  await recordEvent(tx, booking.id, booking.state, definition.to, event, context);
+
+  const effects = selectEffects(definition.effects, options.effectOverrides);
+  const applied = await applyEffects(
+    tx, updated, effects, { seats: updated.num_seats, settlement: options.settlement }, context
+  );
+
+  logger.info('Booking state changed', {
+    bookingId: booking.id,
+    from: booking.state,
+    to: definition.to,
+    event,
+    effects,
+    actor: context.actor,
+    source: context.source,
+  });
+
+  return { booking: updated, ...applied };
+}
+
+export async function getBookingHistory(bookingId: string, actor?: AuthContext): Promise<BookingHistory> {
+  const booking = await db.get<Pick<BookingRow, 'id' | 'user_id' | 'state'>>(
+    'SELECT id, user_id, state FROM bookings WHERE id = ?',
+    [bookingId]
+  );
+  if (!booking) {
+    throw new HttpError(404, 'Booking not found');
+  }
+  if (actor) {
+    assertCanActAs(actor, booking.user_id);
+  }
+
+  // The creation event sorts first even if a transition landed in the same millisecond
+  const events = await db.all<BookingEventRow>(
+    `SELECT * FROM booking_events
+     WHERE booking_id = ?
+     ORDER BY created_at ASC, (from_state IS NOT NULL) ASC`,
+    [bookingId]
+  );
+  return { booking_id: booking.id, state: booking.state, events };
+}
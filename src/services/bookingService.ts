@@ -1,101 +1,164 @@
 import { v4 as uuidv4 } from 'uuid';
-import { db } from '../db/database';
-import { STATES, HttpError, TripRow, BookingRow } from '../types';
+import { db, TransactionDatabase } from '../db/database';
+import {
+  STATES, HttpError, TripRow, BookingRow, Currency, PassengerInput, BookingWithTrip, UserBookingFilters, UserBookingsResult,
+  AuthContext, BookingEventSource, EVENTS,
+} from '../types';
 import { Trip } from '../models/Trip';
 import { Booking } from '../models/Booking';
+import { Passenger } from '../models/Passenger';
 import { logger } from '../utils/logger';
+import { calculatePrice, getPricingRules } from './pricingService';
+import { applyPromoCode, recordRedemption } from './promoService';
+import { convertPricing } from './fxService';
+import { replacePassengers, getBookingPassengers } from './passengerService';
+import { assertUserExists } from './userService';
+import { confirmWithPayment, findSettlingPayment } from './paymentService';
+import { takeSeats } from './seatService';
+import { recordBookingCreated, transitionBooking, actorName, SYSTEM_ACTOR } from './bookingEventService';
+import { assertCanActAs } from '../utils/auth';
 
-export async function createBooking(tripId: string, userId: string, numSeats: number): Promise<Booking> {
+export const DEFAULT_HOLD_TTL_MINUTES = parseInt(process.env.HOLD_TTL_MINUTES || '15', 10);
+export const MAX_HOLD_TTL_MINUTES = parseInt(process.env.MAX_HOLD_TTL_MINUTES || '60', 10);
+
+interface BookingOptions {
+  promoCode?: string;
+  currency?: Currency;
+  passengers?: PassengerInput[];
+  // Who the booking's history records as creating it
+  actor?: string;
+  source?: BookingEventSource;
+}
+
+export async function createBooking(
+  tripId: string,
+  userId: string,
+  numSeats: number,
+  options: BookingOptions = {}
+): Promise<Booking> {
   if (!numSeats || numSeats <= 0) {
     throw new HttpError(400, 'num_seats must be greater than 0');
   }
+  await assertUserExists(userId);
+
+  return db.transaction((tx) => reserveBooking(tx, tripId, userId, numSeats, options));
+}
 
+/**
+ * Locks the trip, releases seats held by lapsed payment holds and creates a PENDING_PAYMENT
+ * booking. Runs on the caller's transaction so other flows (e.g. waitlist offers) can reserve
+ * seats atomically with their own bookkeeping.
+ */
+export async function reserveBooking(
+  tx: TransactionDatabase,
+  tripId: string,
+  userId: string,
+  numSeats: number,
+  options: BookingOptions = {}
+): Promise<Booking> {
   const now = new Date();
-  const expiresAt = new Date(now.getTime() + 15 * 60 * 1000);
   const bookingId = uuidv4();
 
-  return db.transaction(async () => {
-    const tripRow = await db.get<TripRow>(
-      'SELECT * FROM trips WHERE id = ? AND status = ? FOR UPDATE',
-      [tripId, 'PUBLISHED']
-    );
+  const tripRow = await tx.get<TripRow>(
+    'SELECT * FROM trips WHERE id = ? AND status = ? FOR UPDATE',
+    [tripId, 'PUBLISHED']
+  );
 
-    const trip = Trip.fromRow(tripRow);
-    if (!trip) {
-      throw new HttpError(404, 'Trip not found or not published');
-    }
+  const trip = Trip.fromRow(tripRow);
+  if (!trip) {
+    throw new HttpError(404, 'Trip not found or not published');
+  }
 
-    // Calculate seats to release from expired bookings BEFORE updating them
-    const expiredSeatsResult = await db.get<{ expired_seats: number }>(
-      `SELECT COALESCE(SUM(num_seats), 0) as expired_seats
-       FROM bookings
-       WHERE trip_id = ? AND state = ? AND expires_at < ?`,
-      [tripId, STATES.PENDING_PAYMENT, now.toISOString()]
-    );
+  const nowIso = now.toISOString();
+  const holdTtlMinutes = trip.hold_ttl_minutes ?? DEFAULT_HOLD_TTL_MINUTES;
+  const expiresIso = new Date(now.getTime() + holdTtlMinutes * 60 * 1000).toISOString();
 
-    const expiredSeats = expiredSeatsResult?.expired_seats || 0;
-    const nowIso = now.toISOString();
-    const expiresIso = expiresAt.toISOString();
-    const priceAtBooking = trip.price * numSeats;
-
-    // Expire old pending bookings and update trip seats in one go
-    // First expire bookings
-    if (expiredSeats > 0) {
-      await db.run(
-        `UPDATE bookings
-         SET state = ?, updated_at = ?
-         WHERE trip_id = ? AND state = ? AND expires_at < ?`,
-        [STATES.EXPIRED, nowIso, tripId, STATES.PENDING_PAYMENT, now.toISOString()]
-      );
-    }
+  // Expire lapsed holds first so their seats count towards this booking
+  const lapsedHolds = await tx.all<BookingRow>(
+    'SELECT * FROM bookings WHERE trip_id = ? AND state = ? AND expires_at < ? FOR UPDATE',
+    [tripId, STATES.PENDING_PAYMENT, nowIso]
+  );
+  let expiredSeats = 0;
+  for (const hold of lapsedHolds) {
+    const expired = await transitionBooking(tx, hold, EVENTS.AUTO_EXPIRE, { actor: SYSTEM_ACTOR, source: 'expiry', nowIso });
+    expiredSeats += expired.seatsReleased;
+  }
 
-    // Calculate available seats: current - expired seats (to be released) - new booking seats
-    const currentAvailableSeats = trip.available_seats + expiredSeats;
-    const finalAvailableSeats = currentAvailableSeats - numSeats;
+  // `trip` was read before the lapsed holds gave their seats back
+  const currentAvailableSeats = trip.available_seats + expiredSeats;
+  const finalAvailableSeats = currentAvailableSeats - numSeats;
 
-    // Check if enough seats are available (prevent negative available_seats)
-    if (finalAvailableSeats < 0) {
-      throw new HttpError(409, `Not enough seats available. ${currentAvailableSeats} seats remaining, ${numSeats} requested`);
-    }
+  // Check if enough seats are available (prevent negative available_seats)
+  if (finalAvailableSeats < 0) {
+    throw new HttpError(409, `Not enough seats available. ${currentAvailableSeats} seats remaining, ${numSeats} requested`);
+  }
 
-    // Update trip: release expired seats and decrement for new booking in one UPDATE
-    await db.run(
-      `UPDATE trips 
-       SET available_seats = available_seats + ? - ?, updated_at = ? 
-       WHERE id = ?`,
-      [expiredSeats, numSeats, nowIso, tripId]
-    );
+  // Evaluate pricing rules against occupancy before this booking takes its seats
+  const pricingRules = await getPricingRules(tripId);
+  let pricing = calculatePrice(trip, currentAvailableSeats, numSeats, pricingRules, now);
+  if (options.promoCode) {
+    pricing = await applyPromoCode(tx, options.promoCode, { tripId, userId, now }, pricing);
+  }
 
-    // Insert booking and get it back using RETURNING
-    const bookingRow = await db.get<BookingRow>(
-      `INSERT INTO bookings
-        (id, trip_id, user_id, num_seats, state, price_at_booking, created_at, expires_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-       RETURNING *`,
-      [bookingId, tripId, userId, numSeats, STATES.PENDING_PAYMENT, priceAtBooking, nowIso, expiresIso, nowIso]
-    );
+  // Lock in the charged currency and the rate used so refunds go back in the same currency
+  const currency = options.currency || trip.currency;
+  pricing = await convertPricing(pricing, currency, now, tx);
+  const priceAtBooking = pricing.conversion ? pricing.conversion.total : pricing.total;
+  const fxRate = pricing.conversion ? pricing.conversion.rate : 1;
 
-    logger.info('Booking created successfully and seats reserved', {
-      bookingId,
-      tripId,
-      userId,
-      numSeats,
-      expiresAt: expiresIso,
-      seatsReserved: numSeats,
-      expiredSeatsReleased: expiredSeats
-    });
+  await takeSeats(tx, tripId, numSeats, nowIso);
+
+  // Insert booking and get it back using RETURNING
+  const bookingRow = await tx.get<BookingRow>(
+    `INSERT INTO bookings
+      (id, trip_id, user_id, num_seats, state, price_at_booking, currency, fx_rate, pricing_breakdown,
+       created_at, expires_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [
+      bookingId, tripId, userId, numSeats, STATES.PENDING_PAYMENT, priceAtBooking, currency, fxRate,
+      JSON.stringify(pricing), nowIso, expiresIso, nowIso
+    ]
+  );
+  await recordBookingCreated(tx, bookingRow!, {
+    actor: options.actor || SYSTEM_ACTOR,
+    source: options.source || 'booking_api',
+    nowIso,
+  });
+
+  if (pricing.promo) {
+    await recordRedemption(tx, pricing.promo, bookingId, userId, nowIso);
+  }
+
+  if (options.passengers) {
+    await replacePassengers(tx, { id: bookingId, num_seats: numSeats }, options.passengers);
+  }
 
-    return Booking.fromRow(bookingRow)!;
+  logger.info('Booking created successfully and seats reserved', {
+    bookingId,
+    tripId,
+    userId,
+    numSeats,
+    expiresAt: expiresIso,
+    seatsReserved: numSeats,
+    expiredSeatsReleased: expiredSeats,
+    priceAtBooking,
+    currency,
+    pricingAdjustments: pricing.adjustments.length,
+    promoCode: pricing.promo?.code,
+    passengers: options.passengers?.length || 0,
   });
+
+  return Booking.fromRow(bookingRow)!;
 }
 
-export async function confirmBooking(bookingId: string): Promise<Booking> {
-  return db.transaction(async () => {
+export async function confirmBooking(bookingId: string, actor?: AuthContext): Promise<Booking> {
+  return db.transaction(async (tx) => {
     const nowIso = new Date().toISOString();
     
     // Get booking with expiry check in one query
-    const booking = await db.get<BookingRow>(
-      'SELECT * FROM bookings WHERE id = ?',
+    const booking = await tx.get<BookingRow>(
+      'SELECT * FROM bookings WHERE id = ? FOR UPDATE',
       [bookingId]
     );
 
@@ -112,15 +175,11 @@ export async function confirmBooking(bookingId: string): Promise<Booking> {
       return Booking.fromRow(booking)!;
     }
 
-    if (booking.state !== STATES.PENDING_PAYMENT) {
-      throw new HttpError(409, `Cannot confirm booking in state: ${booking.state}`);
+    const payment = await findSettlingPayment(booking, tx);
+    if (!payment) {
+      throw new HttpError(409, 'A successful payment for the full booking price is required before confirmation');
     }
-
-    // Update and return in one query using RETURNING
-    const updatedBooking = await db.get<BookingRow>(
-      'UPDATE bookings SET state = ?, updated_at = ? WHERE id = ? RETURNING *',
-      [STATES.CONFIRMED, nowIso, bookingId]
-    );
+    const updatedBooking = await confirmWithPayment(tx, booking, payment, { actor: actorName(actor), source: 'booking_api', nowIso });
 
     logger.info('Booking confirmed successfully', {
       bookingId,
@@ -132,13 +191,140 @@ export async function confirmBooking(bookingId: string): Promise<Booking> {
   });
 }
 
-export async function getBooking(bookingId: string): Promise<BookingRow | null> {
-  const row = await db.get<BookingRow & { title: string; destination: string }>(
+/**
+ * Pushes back the payment deadline of a live hold. A hold can be extended once, by the trip's hold
+ * TTL unless `minutes` is given, and never beyond MAX_HOLD_TTL_MINUTES after the booking was created.
+ */
+export async function extendHold(bookingId: string, minutes?: number): Promise<Booking> {
+  if (minutes !== undefined && (!Number.isInteger(minutes) || minutes <= 0)) {
+    throw new HttpError(400, 'minutes must be a positive integer');
+  }
+
+  return db.transaction(async (tx) => {
+    const booking = await tx.get<BookingRow & { hold_ttl_minutes: number | null }>(
+      `SELECT b.*, t.hold_ttl_minutes
+       FROM bookings b
+       JOIN trips t ON b.trip_id = t.id
+       WHERE b.id = ?
+       FOR UPDATE OF b`,
+      [bookingId]
+    );
+    if (!booking) {
+      throw new HttpError(404, 'Booking not found');
+    }
+
+    const now = new Date();
+    if (booking.state !== STATES.PENDING_PAYMENT || !booking.expires_at || new Date(booking.expires_at) <= now) {
+      throw new HttpError(409, 'Only active payment holds can be extended');
+    }
+    if (booking.idempotency_key) {
+      throw new HttpError(409, 'Cannot extend a hold that has been processed by payment webhook');
+    }
+    if (booking.hold_extended_at) {
+      throw new HttpError(409, 'Payment hold has already been extended');
+    }
+
+    const extensionMs = (minutes ?? booking.hold_ttl_minutes ?? DEFAULT_HOLD_TTL_MINUTES) * 60 * 1000;
+    const latestExpiry = new Date(booking.created_at).getTime() + MAX_HOLD_TTL_MINUTES * 60 * 1000;
+    const currentExpiry = new Date(booking.expires_at).getTime();
+    const newExpiry = Math.min(currentExpiry + extensionMs, latestExpiry);
+    if (newExpiry <= currentExpiry) {
+      throw new HttpError(409, `Payment hold is already at the maximum of ${MAX_HOLD_TTL_MINUTES} minutes`);
+    }
+
+    const nowIso = now.toISOString();
+    const expiresIso = new Date(newExpiry).toISOString();
+    const updated = await tx.get<BookingRow>(
+      'UPDATE bookings SET expires_at = ?, hold_extended_at = ?, updated_at = ? WHERE id = ? RETURNING *',
+      [expiresIso, nowIso, nowIso, bookingId]
+    );
+
+    logger.info('Payment hold extended', {
+      bookingId,
+      previousExpiresAt: new Date(currentExpiry).toISOString(),
+      expiresAt: expiresIso,
+    });
+
+    return Booking.fromRow(updated)!;
+  });
+}
+
+/**
+ * Returns a booking with its trip details and passengers. When `actor` is given, only its owner
+ * (or an operator) may read it.
+ */
+export async function getBooking(
+  bookingId: string,
+  actor?: AuthContext
+): Promise<(BookingWithTrip & { passengers: Passenger[] }) | null> {
+  const row = await db.get<BookingWithTrip>(
     `SELECT b.*, t.title, t.destination, t.start_date, t.end_date
      FROM bookings b
      JOIN trips t ON b.trip_id = t.id
      WHERE b.id = ?`,
     [bookingId]
   );
-  return row || null;
+  if (!row) return null;
+  if (actor) {
+    assertCanActAs(actor, row.user_id);
+  }
+  return { ...row, passengers: await getBookingPassengers(bookingId) };
+}
+
+function encodeBookingCursor(row: BookingWithTrip): string {
+  const createdAt = row.created_at as unknown;
+  const value = createdAt instanceof Date ? createdAt.toISOString() : String(createdAt);
+  return Buffer.from(JSON.stringify({ created_at: value, id: row.id })).toString('base64url');
+}
+
+function decodeBookingCursor(raw: string): { created_at: string; id: string } {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+    if (cursor && typeof cursor.created_at === 'string' && typeof cursor.id === 'string') {
+      return cursor;
+    }
+  } catch {
+    // fall through to the 400 below
+  }
+  throw new HttpError(400, 'Invalid cursor');
+}
+
+/**
+ * Lists a user's bookings newest first, joined with trip details like getBooking. Pages use the same
+ * keyset approach as trip search, on (created_at, id).
+ */
+export async function listUserBookings(userId: string, filters: UserBookingFilters): Promise<UserBookingsResult> {
+  const limit = filters.limit || 20;
+
+  let query = `SELECT b.*, t.title, t.destination, t.start_date, t.end_date
+     FROM bookings b
+     JOIN trips t ON b.trip_id = t.id
+     WHERE b.user_id = ?`;
+  const params: unknown[] = [userId];
+
+  if (filters.state) {
+    query += ' AND b.state = ?';
+    params.push(filters.state);
+  }
+  if (filters.when) {
+    query += filters.when === 'upcoming' ? ' AND t.start_date > ?' : ' AND t.start_date <= ?';
+    params.push(new Date().toISOString());
+  }
+  if (filters.cursor) {
+    const cursor = decodeBookingCursor(filters.cursor);
+    query += ' AND (b.created_at, b.id) < (?, ?)';
+    params.push(cursor.created_at, cursor.id);
+  }
+
+  query += ' ORDER BY b.created_at DESC, b.id DESC LIMIT ?';
+  params.push(limit + 1);
+
+  const rows = await db.all<BookingWithTrip>(query, params);
+  const bookings = rows.slice(0, limit);
+  const last = bookings[bookings.length - 1];
+
+  return {
+    bookings,
+    next_cursor: rows.length > limit && last ? encodeBookingCursor(last) : null,
+  };
 }
@@ -1,6 +1,8 @@
 import { db } from '../db/database';
-import { STATES, BookingRow } from '../types';
+import { STATES, EVENTS, BookingRow } from '../types';
 import { logger } from '../utils/logger';
+import { offerReleasedSeats } from './waitlistService';
+import { transitionBooking, SYSTEM_ACTOR } from './bookingEventService';
 
 export async function expirePendingBookings(): Promise<void> {
   const nowIso = new Date().toISOString();
@@ -16,35 +18,33 @@ export async function expirePendingBookings(): Promise<void> {
     expiredBookings: expiredBookings.length,
   });
 
+  const tripsWithReleasedSeats = new Set<string>();
+
   for (const booking of expiredBookings) {
     try {
-      await db.transaction(async () => {
-        // Update booking state and check if it was still pending in one query using RETURNING
-        const updated = await db.get<BookingRow>(
-          `UPDATE bookings 
-           SET state = ?, updated_at = ? 
-           WHERE id = ? AND state = ? 
-           RETURNING *`,
-          [STATES.EXPIRED, nowIso, booking.id, STATES.PENDING_PAYMENT]
+      await db.transaction(async (tx) => {
+        // Re-read under lock: the booking may have been paid, or its hold extended, since the scan
+        const current = await tx.get<BookingRow>(
+          'SELECT * FROM bookings WHERE id = ? AND state = ? AND expires_at < ? FOR UPDATE',
+          [booking.id, STATES.PENDING_PAYMENT, nowIso]
         );
+        if (!current) return;
 
-        // Only release seats if booking was actually updated (was still pending)
-        if (updated) {
-          // Release seats when booking expires
-          await db.run(
-            `UPDATE trips 
-             SET available_seats = available_seats + ?, updated_at = ? 
-             WHERE id = ?`,
-            [updated.num_seats, nowIso, updated.trip_id]
-          );
-
-          logger.info('Booking auto-expired and seats released', {
-            bookingId: booking.id,
-            tripId: booking.trip_id,
-            numSeats: booking.num_seats,
-            expiredAt: booking.expires_at
-          });
+        const expired = await transitionBooking(tx, current, EVENTS.AUTO_EXPIRE, {
+          actor: SYSTEM_ACTOR,
+          source: 'expiry',
+          nowIso,
+        });
+        if (expired.seatsReleased > 0) {
+          tripsWithReleasedSeats.add(expired.booking.trip_id);
         }
+
+        logger.info('Booking auto-expired and seats released', {
+          bookingId: booking.id,
+          tripId: booking.trip_id,
+          numSeats: booking.num_seats,
+          expiredAt: booking.expires_at
+        });
       });
     } catch (err) {
       logger.error('Failed to expire booking', {
@@ -53,4 +53,8 @@ export async function expirePendingBookings(): Promise<void> {
       });
     }
   }
+
+  for (const tripId of tripsWithReleasedSeats) {
+    await offerReleasedSeats(tripId);
+  }
 }
@@ -0,0 +1,101 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import { HttpError, CURRENCIES, Currency, ExchangeRateRow, PricingBreakdown } from '../types';
+import { logger } from '../utils/logger';
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Returns how many units of `quote` one unit of `base` buys at `at`. Uses the latest rate whose
+ * effective_from is not in the future, falling back to the inverse pair when only that is stored.
+ */
+export async function getRate(
+  base: Currency,
+  quote: Currency,
+  at: Date = new Date(),
+  conn: Pick<TransactionDatabase, 'get'> = db
+): Promise<number> {
+  if (base === quote) return 1;
+
+  const atIso = at.toISOString();
+  const direct = await conn.get<ExchangeRateRow>(
+    `SELECT * FROM exchange_rates
+     WHERE base_currency = ? AND quote_currency = ? AND effective_from <= ?
+     ORDER BY effective_from DESC LIMIT 1`,
+    [base, quote, atIso]
+  );
+  if (direct) return Number(direct.rate);
+
+  const inverse = await conn.get<ExchangeRateRow>(
+    `SELECT * FROM exchange_rates
+     WHERE base_currency = ? AND quote_currency = ? AND effective_from <= ?
+     ORDER BY effective_from DESC LIMIT 1`,
+    [quote, base, atIso]
+  );
+  if (inverse) return Number((1 / Number(inverse.rate)).toFixed(8));
+
+  throw new HttpError(422, `No exchange rate available from ${base} to ${quote}`);
+}
+
+export async function convertPricing(
+  pricing: PricingBreakdown,
+  currency: Currency,
+  at: Date = new Date(),
+  conn: Pick<TransactionDatabase, 'get'> = db
+): Promise<PricingBreakdown> {
+  if (currency === pricing.currency) {
+    return { ...pricing, conversion: null };
+  }
+  const rate = await getRate(pricing.currency, currency, at, conn);
+  return {
+    ...pricing,
+    conversion: { currency, rate, total: Math.max(Number((pricing.total * rate).toFixed(2)), 0.01) },
+  };
+}
+
+export async function createExchangeRate(input: {
+  base_currency: Currency;
+  quote_currency: Currency;
+  rate: number;
+  effective_from?: string;
+}): Promise<ExchangeRateRow> {
+  if (!isCurrency(input.base_currency) || !isCurrency(input.quote_currency)) {
+    throw new HttpError(400, `Currencies must be one of: ${CURRENCIES.join(', ')}`);
+  }
+  if (input.base_currency === input.quote_currency) {
+    throw new HttpError(400, 'base_currency and quote_currency must differ');
+  }
+  if (!(input.rate > 0)) {
+    throw new HttpError(400, 'rate must be greater than 0');
+  }
+
+  const nowIso = new Date().toISOString();
+  const effectiveFrom = input.effective_from ? new Date(input.effective_from) : new Date(nowIso);
+  if (isNaN(effectiveFrom.getTime())) {
+    throw new HttpError(400, 'effective_from must be a valid ISO 8601 date');
+  }
+
+  const row = await db.get<ExchangeRateRow>(
+    `INSERT INTO exchange_rates (id, base_currency, quote_currency, rate, effective_from, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (base_currency, quote_currency, effective_from) DO UPDATE SET rate = EXCLUDED.rate
+     RETURNING *`,
+    [uuidv4(), input.base_currency, input.quote_currency, input.rate, effectiveFrom.toISOString(), nowIso]
+  );
+
+  logger.info('Exchange rate recorded', {
+    pair: `${input.base_currency}/${input.quote_currency}`,
+    rate: input.rate,
+    effectiveFrom: effectiveFrom.toISOString(),
+  });
+
+  return row!;
+}
+
+export async function listExchangeRates(): Promise<ExchangeRateRow[]> {
+  return db.all<ExchangeRateRow>(
+    'SELECT * FROM exchange_rates ORDER BY base_currency, quote_currency, effective_from DESC'
+  );
+}
@@ -0,0 +1,301 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import {
+  BookingRow, BookingTransferRow, PaymentRow, RefundRow, LedgerAccount, LEDGER_ACCOUNTS, LedgerDirection, LedgerEntryRow, LedgerEntryType,
+  LedgerPostingRow, TripRow, TripMetricsResponse
+} from '../types';
+import { logger } from '../utils/logger';
+
+type LedgerBooking = Pick<BookingRow, 'id' | 'trip_id' | 'currency' | 'fx_rate'>;
+
+interface PostingInput {
+  account: LedgerAccount;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+export interface LedgerEntry extends LedgerEntryRow {
+  postings: LedgerPostingRow[];
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function roundMoney(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+/**
+ * Appends one journal entry. Amounts are in the booking's currency and the entry keeps the booking's
+ * fx_rate, so balances can be reported in trip currency later. Debits must equal credits; anything
+ * else is a bug in the caller and aborts the surrounding transaction.
+ */
+async function postEntry(
+  tx: TransactionDatabase,
+  entryType: LedgerEntryType,
+  booking: LedgerBooking,
+  description: string,
+  postings: PostingInput[],
+  nowIso: string,
+  refs: { paymentId?: string; refundId?: string } = {}
+): Promise<LedgerEntry> {
+  const debits = postings.filter((p) => p.direction === 'DEBIT').reduce((sum, p) => sum + toCents(p.amount), 0);
+  const credits = postings.filter((p) => p.direction === 'CREDIT').reduce((sum, p) => sum + toCents(p.amount), 0);
+  if (postings.some((p) => toCents(p.amount) <= 0) || debits !== credits) {
+    throw new Error(`Unbalanced ${entryType} ledger entry for booking ${booking.id}: debits ${debits}, credits ${credits}`);
+  }
+
+  const entry = await tx.get<LedgerEntryRow>(
+    `INSERT INTO ledger_entries
+     (id, entry_type, booking_id, trip_id, payment_id, refund_id, currency, fx_rate, description, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [
+      uuidv4(), entryType, booking.id, booking.trip_id, refs.paymentId || null, refs.refundId || null,
+      booking.currency, booking.fx_rate, description, nowIso
+    ]
+  );
+
+  const rows: LedgerPostingRow[] = [];
+  for (const posting of postings) {
+    const row = await tx.get<LedgerPostingRow>(
+      `INSERT INTO ledger_postings (id, entry_id, account, direction, amount)
+       VALUES (?, ?, ?, ?, ?)
+       RETURNING *`,
+      [uuidv4(), entry!.id, posting.account, posting.direction, roundMoney(Number(posting.amount))]
+    );
+    rows.push(row!);
+  }
+
+  logger.info('Ledger entry posted', {
+    entryId: entry!.id,
+    entryType,
+    bookingId: booking.id,
+    amount: debits / 100,
+    currency: booking.currency,
+  });
+
+  return { ...entry!, postings: rows };
+}
+
+/**
+ * Posts the payment that settled a booking. Sales are credited at the undiscounted price and a promo
+ * discount is booked separately against DISCOUNTS, so the discount given away stays visible. The
+ * promo amount is priced in trip currency and converted at the booking's rate.
+ */
+export async function recordPaymentReceived(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  payment: PaymentRow,
+  nowIso: string
+): Promise<LedgerEntry[]> {
+  const amount = Number(payment.amount);
+  const entries = [
+    await postEntry(tx, 'PAYMENT_RECEIVED', booking, `Payment ${payment.provider_reference}`, [
+      { account: 'CASH', direction: 'DEBIT', amount },
+      { account: 'SALES', direction: 'CREDIT', amount },
+    ], nowIso, { paymentId: payment.id }),
+  ];
+
+  const promo = booking.pricing_breakdown?.promo;
+  const discount = promo ? roundMoney(Number(promo.amount) * Number(booking.fx_rate || 1)) : 0;
+  if (promo && discount > 0) {
+    entries.push(await postEntry(tx, 'DISCOUNT', booking, `Promo code ${promo.code}`, [
+      { account: 'DISCOUNTS', direction: 'DEBIT', amount: discount },
+      { account: 'SALES', direction: 'CREDIT', amount: discount },
+    ], nowIso, { paymentId: payment.id }));
+  }
+
+  return entries;
+}
+
+/**
+ * Posts a payment that could not be applied to its booking. It stays out of SALES and is held in
+ * UNAPPLIED_PAYMENTS until the refund sending it back is paid. `booking` carries the payment's
+ * currency and its rate from trip currency.
+ */
+export async function recordPaymentUnapplied(
+  tx: TransactionDatabase,
+  booking: LedgerBooking,
+  payment: PaymentRow,
+  nowIso: string
+): Promise<LedgerEntry> {
+  const amount = Number(payment.amount);
+  return postEntry(tx, 'PAYMENT_UNAPPLIED', booking, `Unapplied payment ${payment.provider_reference}`, [
+    { account: 'CASH', direction: 'DEBIT', amount },
+    { account: 'UNAPPLIED_PAYMENTS', direction: 'CREDIT', amount },
+  ], nowIso, { paymentId: payment.id });
+}
+
+/**
+ * Moves the part of a cancelled booking's value that is not refunded out of SALES and into retained
+ * cancellation fees. Nothing is posted when the whole value goes back to the customer.
+ */
+export async function recordCancellationFee(
+  tx: TransactionDatabase,
+  booking: LedgerBooking,
+  fee: number,
+  description: string,
+  nowIso: string
+): Promise<LedgerEntry | null> {
+  if (toCents(fee) <= 0) return null;
+  return postEntry(tx, 'CANCELLATION_FEE', booking, description, [
+    { account: 'SALES', direction: 'DEBIT', amount: fee },
+    { account: 'CANCELLATION_FEES', direction: 'CREDIT', amount: fee },
+  ], nowIso);
+}
+
+/**
+ * Moves what a transferred booking is still worth from its old trip's SALES to its new trip's,
+ * through the TRANSFERS clearing account. Each side is posted at that trip's booking rate, so both
+ * trips report the booking in their own currency. `from` and `to` carry the trip and rate before
+ * and after the transfer.
+ */
+export async function recordTransfer(
+  tx: TransactionDatabase,
+  from: LedgerBooking,
+  to: LedgerBooking,
+  amount: number,
+  nowIso: string
+): Promise<LedgerEntry[]> {
+  if (toCents(amount) <= 0) return [];
+  return [
+    await postEntry(tx, 'TRANSFER', from, `Moved to trip ${to.trip_id}`, [
+      { account: 'SALES', direction: 'DEBIT', amount },
+      { account: 'TRANSFERS', direction: 'CREDIT', amount },
+    ], nowIso),
+    await postEntry(tx, 'TRANSFER', to, `Moved from trip ${from.trip_id}`, [
+      { account: 'TRANSFERS', direction: 'DEBIT', amount },
+      { account: 'SALES', direction: 'CREDIT', amount },
+    ], nowIso),
+  ];
+}
+
+/**
+ * Posts a settled transfer's fare difference and change fee on the new trip. What the customer paid
+ * goes to CASH, the fare difference to SALES and the fee to CHANGE_FEES. A credit is refunded like a
+ * cancellation: only the fee leaves SALES now, and the refund is posted when it is paid.
+ */
+export async function recordTransferSettlement(
+  tx: TransactionDatabase,
+  booking: LedgerBooking,
+  transfer: BookingTransferRow,
+  payment: PaymentRow | null,
+  nowIso: string
+): Promise<LedgerEntry | null> {
+  const fareDifference = Number(transfer.fare_difference);
+  const changeFee = Number(transfer.change_fee);
+  const amountDue = Number(transfer.amount_due);
+  const postings: PostingInput[] = amountDue < 0
+    ? [
+      { account: 'SALES', direction: 'DEBIT', amount: changeFee },
+      { account: 'CHANGE_FEES', direction: 'CREDIT', amount: changeFee },
+    ]
+    : [
+      { account: 'CASH', direction: 'DEBIT', amount: amountDue },
+      { account: 'SALES', direction: fareDifference < 0 ? 'DEBIT' : 'CREDIT', amount: Math.abs(fareDifference) },
+      { account: 'CHANGE_FEES', direction: 'CREDIT', amount: changeFee },
+    ];
+  const nonZero = postings.filter((posting) => toCents(posting.amount) > 0);
+  if (nonZero.length === 0) return null;
+
+  return payment
+    ? postEntry(tx, 'PAYMENT_RECEIVED', booking, `Transfer payment ${payment.provider_reference}`, nonZero, nowIso, {
+      paymentId: payment.id,
+    })
+    : postEntry(tx, 'CHANGE_FEE', booking, `Change fee for transfer from trip ${transfer.from_trip_id}`, nonZero, nowIso);
+}
+
+/**
+ * Posts a refund once the provider confirms it was paid out. Requested or failed refunds have not
+ * moved any money and stay off the ledger. Returning an unapplied payment clears it from
+ * UNAPPLIED_PAYMENTS, in the currency and at the rate it was received.
+ */
+export async function recordRefundPaid(
+  tx: TransactionDatabase,
+  refund: RefundRow,
+  nowIso: string
+): Promise<LedgerEntry> {
+  if (refund.kind === 'UNAPPLIED_PAYMENT') {
+    const receipt = await tx.get<LedgerEntryRow>(
+      'SELECT * FROM ledger_entries WHERE payment_id = ? AND entry_type = ?',
+      [refund.payment_id, 'PAYMENT_UNAPPLIED']
+    );
+    const held = { id: receipt!.booking_id, trip_id: receipt!.trip_id, currency: receipt!.currency, fx_rate: receipt!.fx_rate };
+    return postEntry(tx, 'REFUND_PAID', held, `Refund ${refund.provider_reference} of unapplied payment`, [
+      { account: 'UNAPPLIED_PAYMENTS', direction: 'DEBIT', amount: Number(refund.amount) },
+      { account: 'CASH', direction: 'CREDIT', amount: Number(refund.amount) },
+    ], nowIso, { refundId: refund.id });
+  }
+
+  // The refund is charged to the trip the booking was on when it was requested, at that trip's rate
+  const booking = await tx.get<LedgerBooking>(
+    `SELECT b.id, COALESCE(t.from_trip_id, b.trip_id) as trip_id, b.currency, COALESCE(t.from_fx_rate, b.fx_rate) as fx_rate
+     FROM bookings b
+     LEFT JOIN LATERAL (
+       SELECT from_trip_id, from_fx_rate FROM booking_transfers
+       WHERE booking_id = b.id AND created_at > ?
+       ORDER BY created_at ASC
+       LIMIT 1
+     ) t ON true
+     WHERE b.id = ?`,
+    [refund.created_at, refund.booking_id]
+  );
+  return postEntry(tx, 'REFUND_PAID', booking!, `Refund ${refund.provider_reference}`, [
+    { account: 'REFUNDS', direction: 'DEBIT', amount: Number(refund.amount) },
+    { account: 'CASH', direction: 'CREDIT', amount: Number(refund.amount) },
+  ], nowIso, { refundId: refund.id });
+}
+
+export async function getBookingLedger(bookingId: string): Promise<LedgerEntry[]> {
+  const entries = await db.all<LedgerEntryRow>(
+    'SELECT * FROM ledger_entries WHERE booking_id = ? ORDER BY created_at ASC, entry_type ASC',
+    [bookingId]
+  );
+  const postings = await db.all<LedgerPostingRow>(
+    `SELECT p.* FROM ledger_postings p
+     JOIN ledger_entries e ON e.id = p.entry_id
+     WHERE e.booking_id = ?
+     ORDER BY p.direction DESC, p.account ASC`,
+    [bookingId]
+  );
+  return entries.map((entry) => ({ ...entry, postings: postings.filter((p) => p.entry_id === entry.id) }));
+}
+
+/**
+ * Account balances for a trip in trip currency, debit-positive: revenue accounts (SALES,
+ * CANCELLATION_FEES) carry negative balances.
+ */
+export async function getTripLedgerBalances(tripId: string): Promise<Record<LedgerAccount, number>> {
+  const rows = await db.all<{ account: LedgerAccount; balance: string }>(
+    `SELECT p.account,
+            SUM(CASE WHEN p.direction = 'DEBIT' THEN p.amount ELSE -p.amount END / e.fx_rate)::numeric(12,2) as balance
+     FROM ledger_postings p
+     JOIN ledger_entries e ON e.id = p.entry_id
+     WHERE e.trip_id = ?
+     GROUP BY p.account`,
+    [tripId]
+  );
+  const balances = Object.fromEntries(LEDGER_ACCOUNTS.map((account) => [account, 0])) as Record<LedgerAccount, number>;
+  for (const row of rows) {
+    balances[row.account] = Number(row.balance);
+  }
+  return balances;
+}
+
+/**
+ * Gross revenue is what the trip earned before refunds: sales plus retained and change fees, net of discounts.
+ * Net revenue takes off the refunds actually paid out.
+ */
+export async function getTripFinancials(trip: Pick<TripRow, 'id' | 'currency'>): Promise<TripMetricsResponse['financial']> {
+  const balances = await getTripLedgerBalances(trip.id);
+  const grossRevenue = roundMoney(-(balances.SALES + balances.CANCELLATION_FEES + balances.CHANGE_FEES + balances.DISCOUNTS));
+  const refundsIssued = roundMoney(balances.REFUNDS);
+  return {
+    currency: trip.currency,
+    gross_revenue: grossRevenue,
+    refunds_issued: refundsIssued,
+    net_revenue: roundMoney(grossRevenue - refundsIssued),
+  };
+}
@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/database';
+import { HttpError, BookingRow, RefundRow, STATES } from '../types';
+import { buildSignatureHeader, parseWebhookSecrets, WEBHOOK_SIGNATURE_HEADER } from '../utils/webhookSignature';
+import { logger } from '../utils/logger';
+
+export const MOCK_PROVIDER_PATH = '/mock-provider';
+export const MOCK_PAYMENT_OUTCOMES = ['success', 'failure', 'timeout'] as const;
+export type MockPaymentOutcome = typeof MOCK_PAYMENT_OUTCOMES[number];
+
+export const MOCK_REFUND_OUTCOMES = ['success', 'failure'] as const;
+export type MockRefundOutcome = typeof MOCK_REFUND_OUTCOMES[number];
+
+interface MockWebhookDelivery {
+  payload: Record<string, unknown>;
+  status: number;
+  response: unknown;
+}
+
+export interface MockPaymentResult {
+  outcome: MockPaymentOutcome;
+  webhook: MockWebhookDelivery | null;
+}
+
+export interface MockRefundResult {
+  outcome: MockRefundOutcome;
+  webhook: MockWebhookDelivery;
+}
+
+function localBaseUrl(): string {
+  return `http://localhost:${process.env.PORT || '3000'}`;
+}
+
+/**
+ * The mock provider confirms payments nobody made, so it is only mounted when a deployment opts in
+ * with MOCK_PAYMENT_PROVIDER=true, whatever NODE_ENV says.
+ */
+export function isMockPaymentProviderEnabled(): boolean {
+  return process.env.MOCK_PAYMENT_PROVIDER === 'true';
+}
+
+/**
+ * Where customers are sent to pay. PAYMENT_PROVIDER_URL points at a real provider's hosted checkout;
+ * without it the built-in mock provider's checkout page is used.
+ */
+export function buildPaymentUrl(bookingId: string): string {
+  const base = process.env.PAYMENT_PROVIDER_URL || `${localBaseUrl()}${MOCK_PROVIDER_PATH}`;
+  return `${base.replace(/\/$/, '')}/pay/${bookingId}`;
+}
+
+export interface CheckoutBooking extends BookingRow {
+  title: string;
+  // The hold's price, or what a confirmed booking owes for a trip change; null when nothing is due
+  amount_due: number | null;
+}
+
+export async function getCheckoutBooking(bookingId: string): Promise<CheckoutBooking> {
+  const booking = await db.get<BookingRow & { title: string; transfer_amount_due: string | null }>(
+    `SELECT b.*, t.title, bt.amount_due as transfer_amount_due
+     FROM bookings b
+     JOIN trips t ON b.trip_id = t.id
+     LEFT JOIN booking_transfers bt ON bt.booking_id = b.id AND bt.status = 'AWAITING_PAYMENT'
+     WHERE b.id = ?`,
+    [bookingId]
+  );
+  if (!booking) {
+    throw new HttpError(404, 'Booking not found');
+  }
+  const { transfer_amount_due: transferAmountDue, ...row } = booking;
+  let amountDue: number | null = null;
+  if (row.state === STATES.PENDING_PAYMENT) {
+    amountDue = Number(row.price_at_booking);
+  } else if (row.state === STATES.CONFIRMED && transferAmountDue !== null) {
+    amountDue = Number(transferAmountDue);
+  }
+  return { ...row, amount_due: amountDue };
+}
+
+/**
+ * Settles a checkout the way a real provider would: success and failure are reported to our own
+ * signed webhook, while a timeout sends nothing so the hold runs into its expiry. Confirmed bookings
+ * check out the amount due on a trip change.
+ */
+export async function simulatePayment(bookingId: string, outcome: MockPaymentOutcome): Promise<MockPaymentResult> {
+  if (!MOCK_PAYMENT_OUTCOMES.includes(outcome)) {
+    throw new HttpError(400, `outcome must be one of: ${MOCK_PAYMENT_OUTCOMES.join(', ')}`);
+  }
+
+  const booking = await getCheckoutBooking(bookingId);
+  if (booking.amount_due === null) {
+    throw new HttpError(409, `Booking is not awaiting payment (state: ${booking.state})`);
+  }
+
+  if (outcome === 'timeout') {
+    logger.info('Mock payment timed out; no webhook will be sent', { bookingId });
+    return { outcome, webhook: null };
+  }
+
+  const payload: Record<string, unknown> = {
+    booking_id: booking.id,
+    status: outcome === 'success' ? 'success' : 'failed',
+    idempotency_key: `mock_pay_${uuidv4()}`,
+    amount: booking.amount_due,
+    currency: booking.currency,
+    ...(outcome === 'failure' ? { failure_reason: 'card_declined' } : {}),
+  };
+  const webhook = await deliverWebhook(payload);
+
+  logger.info('Mock payment webhook delivered', {
+    bookingId,
+    outcome,
+    idempotencyKey: payload.idempotency_key,
+    webhookStatus: webhook.status,
+  });
+
+  return { outcome, webhook };
+}
+
+/**
+ * Settles a refund submitted to the provider the way a real provider would, by reporting the
+ * outcome to our signed webhook. Only the refund's current attempt can be settled.
+ */
+export async function simulateRefund(refundId: string, outcome: MockRefundOutcome): Promise<MockRefundResult> {
+  if (!MOCK_REFUND_OUTCOMES.includes(outcome)) {
+    throw new HttpError(400, `outcome must be one of: ${MOCK_REFUND_OUTCOMES.join(', ')}`);
+  }
+
+  const refund = await db.get<RefundRow>('SELECT * FROM refunds WHERE id = ?', [refundId]);
+  if (!refund) {
+    throw new HttpError(404, 'Refund not found');
+  }
+  if (refund.status !== 'PROCESSING') {
+    throw new HttpError(409, `Refund is not being processed (status: ${refund.status})`);
+  }
+
+  const payload: Record<string, unknown> = {
+    type: 'refund',
+    refund_reference: refund.provider_reference,
+    status: outcome === 'success' ? 'success' : 'failed',
+    ...(outcome === 'failure' ? { failure_reason: 'account_closed' } : {}),
+  };
+  const webhook = await deliverWebhook(payload);
+
+  logger.info('Mock refund webhook delivered', {
+    refundId,
+    outcome,
+    refundReference: refund.provider_reference,
+    webhookStatus: webhook.status,
+  });
+
+  return { outcome, webhook };
+}
+
+async function deliverWebhook(payload: Record<string, unknown>): Promise<MockWebhookDelivery> {
+  const [secret] = parseWebhookSecrets(process.env.WEBHOOK_SECRETS);
+  if (!secret) {
+    throw new HttpError(500, 'WEBHOOK_SECRETS must be set to sign mock provider webhooks');
+  }
+
+  const rawBody = JSON.stringify(payload);
+  const webhookUrl = process.env.MOCK_PROVIDER_WEBHOOK_URL || `${localBaseUrl()}/api/payments/webhook`;
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [WEBHOOK_SIGNATURE_HEADER]: buildSignatureHeader(secret, rawBody),
+    },
+    body: rawBody,
+  });
+  return { payload, status: response.status, response: await response.json().catch(() => null) };
+}
@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import { HttpError, STATES, AuthContext, BookingRow, PassengerInput, PassengerRow } from '../types';
+import { Passenger } from '../models/Passenger';
+import { logger } from '../utils/logger';
+import { confirmWithPayment, findSettlingPayment } from './paymentService';
+import { actorName } from './bookingEventService';
+
+const PASSENGER_COLUMNS = `id, booking_id, full_name, to_char(date_of_birth, 'YYYY-MM-DD') as date_of_birth,
+  nationality, document_number, emergency_contact_name, emergency_contact_phone, created_at`;
+
+function validatePassengers(passengers: PassengerInput[], numSeats: number): void {
+  if (passengers.length !== numSeats) {
+    throw new HttpError(400, `Exactly ${numSeats} passengers are required, got ${passengers.length}`);
+  }
+
+  const today = new Date();
+  for (const passenger of passengers) {
+    const dob = new Date(passenger.date_of_birth);
+    if (isNaN(dob.getTime()) || dob > today) {
+      throw new HttpError(400, `Invalid date_of_birth for passenger ${passenger.full_name}`);
+    }
+  }
+
+  const documents = passengers.map((passenger) => `${passenger.nationality}:${passenger.document_number}`);
+  if (new Set(documents).size !== documents.length) {
+    throw new HttpError(400, 'Each passenger must have a distinct travel document');
+  }
+}
+
+/**
+ * Replaces the passenger list of a booking. Runs on the caller's transaction so passengers can be
+ * written together with the booking they belong to.
+ */
+export async function replacePassengers(
+  tx: TransactionDatabase,
+  booking: Pick<BookingRow, 'id' | 'num_seats'>,
+  passengers: PassengerInput[]
+): Promise<Passenger[]> {
+  validatePassengers(passengers, booking.num_seats);
+
+  await tx.run('DELETE FROM booking_passengers WHERE booking_id = ?', [booking.id]);
+
+  const nowIso = new Date().toISOString();
+  const rows: PassengerRow[] = [];
+  for (const passenger of passengers) {
+    const row = await tx.get<PassengerRow>(
+      `INSERT INTO booking_passengers
+       (id, booking_id, full_name, date_of_birth, nationality, document_number,
+        emergency_contact_name, emergency_contact_phone, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING ${PASSENGER_COLUMNS}`,
+      [
+        uuidv4(), booking.id, passenger.full_name, passenger.date_of_birth.slice(0, 10),
+        passenger.nationality.toUpperCase(), passenger.document_number,
+        passenger.emergency_contact.name, passenger.emergency_contact.phone, nowIso
+      ]
+    );
+    rows.push(row!);
+  }
+
+  return rows.map((row) => Passenger.fromRow(row)!);
+}
+
+/**
+ * Replaces a booking's passengers. If the booking was already paid for but held back because the
+ * list was incomplete, completing it confirms the booking in the same transaction.
+ */
+export async function setBookingPassengers(
+  bookingId: string,
+  passengers: PassengerInput[],
+  actor?: AuthContext
+): Promise<Passenger[]> {
+  return db.transaction(async (tx) => {
+    const booking = await tx.get<BookingRow>('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
+    if (!booking) {
+      throw new HttpError(404, 'Booking not found');
+    }
+    if (booking.state !== STATES.PENDING_PAYMENT && booking.state !== STATES.CONFIRMED) {
+      throw new HttpError(409, `Cannot update passengers of a booking in state: ${booking.state}`);
+    }
+
+    const result = await replacePassengers(tx, booking, passengers);
+
+    logger.info('Booking passengers updated', { bookingId, passengers: result.length });
+
+    if (booking.state === STATES.PENDING_PAYMENT) {
+      const payment = await findSettlingPayment(booking, tx);
+      if (payment) {
+        const nowIso = new Date().toISOString();
+        await confirmWithPayment(tx, booking, payment, { actor: actorName(actor), source: 'booking_api', nowIso });
+        logger.info('Paid booking confirmed once passenger details were complete', { bookingId, paymentId: payment.id });
+      }
+    }
+
+    return result;
+  });
+}
+
+export async function getBookingPassengers(
+  bookingId: string,
+  conn: Pick<TransactionDatabase, 'all'> = db
+): Promise<Passenger[]> {
+  const rows = await conn.all<PassengerRow>(
+    `SELECT ${PASSENGER_COLUMNS} FROM booking_passengers WHERE booking_id = ? ORDER BY created_at ASC, id ASC`,
+    [bookingId]
+  );
+  return rows.map((row) => Passenger.fromRow(row)!);
+}
+
+export async function hasCompletePassengers(
+  booking: Pick<BookingRow, 'id' | 'num_seats'>,
+  conn: Pick<TransactionDatabase, 'get'> = db
+): Promise<boolean> {
+  const result = await conn.get<{ total: number }>(
+    'SELECT COUNT(*)::int as total FROM booking_passengers WHERE booking_id = ?',
+    [booking.id]
+  );
+  return (result?.total || 0) === booking.num_seats;
+}
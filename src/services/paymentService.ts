@@ -1,18 +1,126 @@
-import { db } from '../db/database';
-import { STATES, HttpError, BookingRow } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import { STATES, EVENTS, HttpError, BookingRow, PaymentRow, PaymentStatus, RefundRow } from '../types';
 import { logger } from '../utils/logger';
+import { offerReleasedSeats } from './waitlistService';
+import { hasCompletePassengers } from './passengerService';
+import { isCurrency } from './fxService';
+import { recordPaymentReceived, recordRefundPaid } from './ledgerService';
+import { transitionBooking, TransitionContext, PAYMENT_PROVIDER_ACTOR } from './bookingEventService';
+import { refundUnappliedPayment, submitRequestedRefund } from './refundService';
+import { applyTransferPayment } from './transferService';
+import { checkTransition, MAX_PAYMENT_ATTEMPTS } from '../utils/stateMachine';
+
+export interface WebhookPaymentDetails {
+  amount?: number;
+  currency?: string;
+  failure_reason?: string;
+}
 
 interface WebhookResult {
   id: string;
   state: string;
   message?: string;
+  payment?: PaymentRow;
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * A payment settles a booking only if it succeeded for exactly price_at_booking in the booking's
+ * currency. Amounts are compared in cents because DECIMAL columns come back as strings.
+ */
+export function paymentSettlesBooking(
+  booking: Pick<BookingRow, 'price_at_booking' | 'currency'>,
+  payment: Pick<PaymentRow, 'status' | 'amount' | 'currency'>
+): boolean {
+  return payment.status === 'SUCCEEDED'
+    && payment.currency === booking.currency
+    && toCents(payment.amount) === toCents(booking.price_at_booking);
+}
+
+export async function getBookingPayments(
+  bookingId: string,
+  conn: Pick<TransactionDatabase, 'all'> = db
+): Promise<PaymentRow[]> {
+  return conn.all<PaymentRow>('SELECT * FROM payments WHERE booking_id = ? ORDER BY attempt ASC', [bookingId]);
 }
 
+export async function findSettlingPayment(
+  booking: Pick<BookingRow, 'id' | 'price_at_booking' | 'currency'>,
+  conn: Pick<TransactionDatabase, 'all'> = db
+): Promise<PaymentRow | null> {
+  const payments = await getBookingPayments(booking.id, conn);
+  return payments.find((payment) => paymentSettlesBooking(booking, payment)) || null;
+}
+
+async function recordPayment(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  providerReference: string,
+  status: PaymentStatus,
+  details: WebhookPaymentDetails,
+  nowIso: string
+): Promise<PaymentRow> {
+  // The booking row is locked by the caller, so attempt numbers can't race
+  const previous = await tx.get<{ attempts: number }>(
+    'SELECT COALESCE(MAX(attempt), 0)::int as attempts FROM payments WHERE booking_id = ?',
+    [booking.id]
+  );
+  const payment = await tx.get<PaymentRow>(
+    `INSERT INTO payments
+     (id, booking_id, provider_reference, attempt, amount, currency, status, failure_reason, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [
+      uuidv4(), booking.id, providerReference, (previous?.attempts || 0) + 1,
+      details.amount ?? booking.price_at_booking, details.currency || booking.currency, status,
+      status === 'FAILED' ? details.failure_reason || null : null, nowIso, nowIso
+    ]
+  );
+  return payment!;
+}
+
+/**
+ * Confirms a pending booking with a payment that settles it: the payment becomes the booking's
+ * payment reference and is posted to the ledger. Used by the webhook and, for payments that arrived
+ * before the passenger list was complete, when the list is completed.
+ */
+export async function confirmWithPayment(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  payment: PaymentRow,
+  context: TransitionContext
+): Promise<BookingRow> {
+  const { booking: updated } = await transitionBooking(tx, booking, EVENTS.PAYMENT_SUCCESS, context, {
+    facts: {
+      paymentSettles: paymentSettlesBooking(booking, payment),
+      passengersComplete: await hasCompletePassengers(booking, tx),
+    },
+    changes: { idempotency_key: payment.provider_reference, payment_reference: payment.provider_reference },
+  });
+  await recordPaymentReceived(tx, updated, payment, context.nowIso);
+  return updated;
+}
+
+/**
+ * Records a provider payment event for a booking and settles the booking when it can. Every
+ * attempt is kept in `payments`; a failed attempt leaves the hold open for another try until
+ * MAX_PAYMENT_ATTEMPTS have failed, at which point the booking expires and its seats are released.
+ * Redelivering a `idempotency_key` never records a second attempt, but re-evaluates the booking.
+ * A payment that arrived before passenger details were complete confirms the booking once
+ * setBookingPassengers completes the list. A confirmed booking only takes the payment for a trip
+ * change it is waiting on. A successful payment that can't be applied (the booking is no longer
+ * pending, or the amount or currency is wrong) is refunded in full.
+ */
 export async function processWebhook(
   bookingId: string,
   status: string,
-  idempotencyKey: string
-): Promise<BookingRow | WebhookResult> {
+  idempotencyKey: string,
+  details: WebhookPaymentDetails = {}
+): Promise<(BookingRow & { payment: PaymentRow }) | WebhookResult> {
   if (!idempotencyKey) {
     throw new HttpError(400, 'idempotency_key is required');
   }
@@ -21,92 +129,228 @@ export async function processWebhook(
   if (!['success', 'failed'].includes(normalizedStatus)) {
     throw new HttpError(400, 'Invalid status. Must be "success" or "failed"');
   }
+  if (normalizedStatus === 'success' && details.amount === undefined) {
+    throw new HttpError(400, 'amount is required for successful payments');
+  }
+  if (details.amount !== undefined && !(details.amount >= 0)) {
+    throw new HttpError(400, 'amount must be a non-negative number');
+  }
+  if (details.currency !== undefined && !isCurrency(details.currency)) {
+    throw new HttpError(400, `Unsupported currency: ${details.currency}`);
+  }
+  const paymentStatus: PaymentStatus = normalizedStatus === 'success' ? 'SUCCEEDED' : 'FAILED';
 
-  return db.transaction(async () => {
-    // Check idempotency and get booking in one query using COALESCE
-    const booking = await db.get<BookingRow & { existing_id?: string }>(
-      `SELECT b.*, 
-              (SELECT id FROM bookings WHERE idempotency_key = ? LIMIT 1) as existing_id
-       FROM bookings b
-       WHERE b.id = ?`,
-      [idempotencyKey, bookingId]
-    );
+  let releasedSeatsTripId: string | null = null;
+  let unappliedRefund: RefundRow | null = null;
+
+  const result = await db.transaction(async (tx): Promise<(BookingRow & { payment: PaymentRow }) | WebhookResult> => {
+    const booking = await tx.get<BookingRow>('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
 
     if (!booking) {
       logger.warn('Webhook received for non-existent booking', { bookingId });
       return { id: bookingId, state: 'NOT_FOUND', message: 'booking not found' };
     }
 
-    // Check if idempotency key exists for different booking
-    if (booking.existing_id && booking.existing_id !== bookingId) {
+    const nowIso = new Date().toISOString();
+    let payment = await tx.get<PaymentRow>('SELECT * FROM payments WHERE provider_reference = ?', [idempotencyKey]);
+
+    if (payment && payment.booking_id !== bookingId) {
       logger.warn('Duplicate idempotency key for different booking', {
         idempotencyKey,
-        existingBookingId: booking.existing_id,
+        existingBookingId: payment.booking_id,
         requestedBookingId: bookingId,
       });
       return { id: bookingId, state: 'DUPLICATE_KEY', message: 'duplicate webhook' };
     }
 
-    if (booking.idempotency_key === idempotencyKey) {
-      logger.info('Duplicate webhook processed idempotently', { bookingId, idempotencyKey });
-      return booking;
+    if (payment) {
+      logger.info('Duplicate webhook processed idempotently', { bookingId, idempotencyKey, paymentId: payment.id });
+      if (payment.status !== paymentStatus) {
+        logger.warn('Duplicate webhook reported a different status; keeping the first one', {
+          bookingId,
+          idempotencyKey,
+          recordedStatus: payment.status,
+          receivedStatus: paymentStatus,
+        });
+      }
+    } else {
+      payment = await recordPayment(tx, booking, idempotencyKey, paymentStatus, details, nowIso);
+      logger.info('Payment attempt recorded', {
+        bookingId,
+        paymentId: payment.id,
+        attempt: payment.attempt,
+        status: payment.status,
+        amount: payment.amount,
+        currency: payment.currency,
+      });
     }
 
     if (booking.state !== STATES.PENDING_PAYMENT) {
+      // Only the payment that confirmed the booking, or one for a trip change, belongs to it;
+      // anything else taken goes back
+      if (payment.provider_reference !== booking.payment_reference
+        && !(await applyTransferPayment(tx, booking, payment, nowIso))) {
+        unappliedRefund = await refundUnappliedPayment(tx, booking, payment, nowIso);
+      }
       logger.info('Webhook received for non-pending booking', {
         bookingId,
         currentState: booking.state,
         idempotencyKey
       });
-      return booking;
+      return { ...booking, payment };
     }
 
-    const nowIso = new Date().toISOString();
+    const context = { actor: PAYMENT_PROVIDER_ACTOR, source: 'payment_webhook' as const, nowIso };
+    const settledColumns = { idempotency_key: idempotencyKey, payment_reference: idempotencyKey };
 
-    if (normalizedStatus === 'success') {
-      // Update booking to CONFIRMED and set idempotency_key in one query, then release seats if needed
-      const updated = await db.get<BookingRow>(
-        `UPDATE bookings 
-         SET state = ?, idempotency_key = ?, payment_reference = ?, updated_at = ? 
-         WHERE id = ? 
-         RETURNING *`,
-        [STATES.CONFIRMED, idempotencyKey, idempotencyKey, nowIso, bookingId]
-      );
+    if (payment.status === 'SUCCEEDED') {
+      const facts = {
+        paymentSettles: paymentSettlesBooking(booking, payment),
+        passengersComplete: await hasCompletePassengers(booking, tx),
+      };
+      // A settling payment waits for the passenger list, which confirms the booking with it once
+      // completed. A payment that can't settle the booking, or a second one, goes back.
+      const blocked = checkTransition(EVENTS.PAYMENT_SUCCESS, { booking, now: new Date(nowIso), ...facts });
+      if (blocked) {
+        const held = facts.paymentSettles ? await findSettlingPayment(booking, tx) : null;
+        if (held?.id !== payment.id) {
+          unappliedRefund = await refundUnappliedPayment(tx, booking, payment, nowIso);
+        }
+        logger.warn('Payment webhook could not confirm booking', {
+          bookingId,
+          paymentId: payment.id,
+          reason: blocked,
+          amount: payment.amount,
+          currency: payment.currency,
+          expectedAmount: booking.price_at_booking,
+          expectedCurrency: booking.currency,
+          numSeats: booking.num_seats,
+          idempotencyKey,
+        });
+        return { id: bookingId, state: booking.state, message: blocked, payment };
+      }
+
+      const updated = await confirmWithPayment(tx, booking, payment, context);
 
       logger.info('Payment webhook processed successfully', {
         bookingId,
         newState: STATES.CONFIRMED,
-        idempotencyKey
+        idempotencyKey,
+        paymentId: payment.id
       });
 
-      return updated!;
-    } else {
-      // Update booking to EXPIRED and release seats in one transaction
-      const updated = await db.get<BookingRow>(
-        `UPDATE bookings 
-         SET state = ?, idempotency_key = ?, payment_reference = ?, updated_at = ? 
-         WHERE id = ? 
-         RETURNING *`,
-        [STATES.EXPIRED, idempotencyKey, idempotencyKey, nowIso, bookingId]
-      );
+      return { ...updated, payment };
+    }
 
-      // Release seats when payment fails
-      await db.run(
-        `UPDATE trips 
-         SET available_seats = available_seats + ?, updated_at = ? 
-         WHERE id = ?`,
-        [booking.num_seats, nowIso, booking.trip_id]
-      );
+    const failures = await tx.get<{ total: number }>(
+      'SELECT COUNT(*)::int as total FROM payments WHERE booking_id = ? AND status = ?',
+      [bookingId, 'FAILED']
+    );
+    const facts = { failedPaymentAttempts: failures?.total || 0 };
 
-      logger.info('Payment webhook processed - payment failed, seats released', {
+    const blocked = checkTransition(EVENTS.PAYMENT_FAILED, { booking, now: new Date(nowIso), ...facts });
+    if (blocked) {
+      logger.info('Payment attempt failed, booking still awaiting payment', {
         bookingId,
-        newState: STATES.EXPIRED,
         idempotencyKey,
-        seatsReleased: booking.num_seats
+        failedAttempts: facts.failedPaymentAttempts,
+        maxAttempts: MAX_PAYMENT_ATTEMPTS
       });
+      return { id: bookingId, state: booking.state, message: blocked, payment };
+    }
 
-      return updated!;
+    const { booking: updated, seatsReleased } = await transitionBooking(
+      tx, booking, EVENTS.PAYMENT_FAILED, context, { facts, changes: settledColumns }
+    );
+    if (seatsReleased > 0) {
+      releasedSeatsTripId = booking.trip_id;
     }
+
+    logger.info('Payment attempts exhausted - booking expired, seats released', {
+      bookingId,
+      newState: STATES.EXPIRED,
+      idempotencyKey,
+      failedAttempts: facts.failedPaymentAttempts,
+      seatsReleased
+    });
+
+    return { ...updated, payment };
   });
+
+  await submitRequestedRefund(unappliedRefund);
+  if (releasedSeatsTripId) {
+    await offerReleasedSeats(releasedSeatsTripId);
+  }
+
+  return result;
 }
 
+/**
+ * Settles a refund the provider was asked to make. Only PROCESSING refunds change status; events
+ * for refunds that already settled, or for a superseded attempt's reference, are acknowledged
+ * without effect.
+ */
+export async function processRefundWebhook(
+  providerReference: string,
+  status: string,
+  failureReason?: string
+): Promise<RefundRow | WebhookResult> {
+  const normalizedStatus = status?.toLowerCase();
+  if (!['success', 'failed'].includes(normalizedStatus)) {
+    throw new HttpError(400, 'Invalid status. Must be "success" or "failed"');
+  }
+
+  return db.transaction(async (tx): Promise<RefundRow | WebhookResult> => {
+    const refund = await tx.get<RefundRow>(
+      'SELECT * FROM refunds WHERE provider_reference = ? FOR UPDATE',
+      [providerReference]
+    );
+    if (!refund) {
+      logger.warn('Refund webhook received for unknown refund reference', { providerReference });
+      return { id: providerReference, state: 'NOT_FOUND', message: 'refund not found' };
+    }
+
+    if (refund.status !== 'PROCESSING') {
+      logger.info('Refund webhook received for settled refund', {
+        refundId: refund.id,
+        providerReference,
+        currentStatus: refund.status,
+      });
+      return refund;
+    }
+
+    const nowIso = new Date().toISOString();
+    const updated = normalizedStatus === 'success'
+      ? await tx.get<RefundRow>(
+        'UPDATE refunds SET status = ?, completed_at = ?, updated_at = ? WHERE id = ? RETURNING *',
+        ['SUCCEEDED', nowIso, nowIso, refund.id]
+      )
+      : await tx.get<RefundRow>(
+        'UPDATE refunds SET status = ?, failure_reason = ?, updated_at = ? WHERE id = ? RETURNING *',
+        ['FAILED', failureReason || null, nowIso, refund.id]
+      );
+
+    if (updated!.status === 'SUCCEEDED') {
+      await recordRefundPaid(tx, updated!, nowIso);
+    }
+
+    if (updated!.status === 'FAILED') {
+      logger.warn('Refund failed at payment provider', {
+        refundId: refund.id,
+        bookingId: refund.booking_id,
+        providerReference,
+        failureReason,
+        attempts: refund.attempts,
+      });
+    } else {
+      logger.info('Refund completed', {
+        refundId: refund.id,
+        bookingId: refund.booking_id,
+        amount: refund.amount,
+        currency: refund.currency,
+      });
+    }
+
+    return updated!;
+  });
+}
@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/database';
+import { HttpError, TripRow, Currency, PricingRuleRow, PricingRuleType, PricingBreakdown, PriceAdjustment } from '../types';
+import { convertPricing } from './fxService';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PricingContext {
+  numSeats: number;
+  daysBeforeDeparture: number;
+  occupancyPercent: number;
+}
+
+export function roundMoney(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+function ruleMatches(rule: PricingRuleRow, context: PricingContext): boolean {
+  switch (rule.rule_type) {
+    case 'EARLY_BIRD':
+      return context.daysBeforeDeparture >= rule.threshold;
+    case 'OCCUPANCY':
+      return context.occupancyPercent >= rule.threshold;
+    case 'GROUP':
+      return context.numSeats >= rule.threshold;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies at most one tier per rule type: the matching rule with the highest threshold.
+ * Adjustments are percentages of the base fare and are added together.
+ */
+export function calculatePrice(
+  trip: Pick<TripRow, 'price' | 'currency' | 'max_capacity' | 'start_date'>,
+  availableSeats: number,
+  numSeats: number,
+  rules: PricingRuleRow[],
+  now: Date = new Date()
+): PricingBreakdown {
+  const unitPrice = Number(trip.price);
+  const basePrice = roundMoney(unitPrice * numSeats);
+  const context: PricingContext = {
+    numSeats,
+    daysBeforeDeparture: (new Date(trip.start_date).getTime() - now.getTime()) / DAY_MS,
+    occupancyPercent: trip.max_capacity > 0 ? ((trip.max_capacity - availableSeats) / trip.max_capacity) * 100 : 0,
+  };
+
+  const bestByType = new Map<PricingRuleType, PricingRuleRow>();
+  for (const rule of rules) {
+    if (!ruleMatches(rule, context)) continue;
+    const current = bestByType.get(rule.rule_type);
+    if (!current || rule.threshold > current.threshold) {
+      bestByType.set(rule.rule_type, rule);
+    }
+  }
+
+  const adjustments: PriceAdjustment[] = Array.from(bestByType.values()).map((rule) => ({
+    source: 'PRICING_RULE',
+    rule_id: rule.id,
+    rule_type: rule.rule_type,
+    threshold: rule.threshold,
+    adjustment_percent: Number(rule.adjustment_percent),
+    amount: roundMoney(basePrice * (Number(rule.adjustment_percent) / 100)),
+  }));
+
+  const subtotal = Math.max(
+    roundMoney(basePrice + adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0)),
+    0.01
+  );
+
+  return {
+    currency: trip.currency,
+    unit_price: unitPrice,
+    num_seats: numSeats,
+    base_price: basePrice,
+    adjustments,
+    subtotal,
+    promo: null,
+    total: subtotal,
+    conversion: null,
+  };
+}
+
+export async function getPricingRules(tripId: string): Promise<PricingRuleRow[]> {
+  return db.all<PricingRuleRow>(
+    'SELECT * FROM pricing_rules WHERE trip_id = ? ORDER BY rule_type ASC, threshold ASC',
+    [tripId]
+  );
+}
+
+export async function createPricingRule(
+  tripId: string,
+  input: { rule_type: PricingRuleType; threshold: number; adjustment_percent: number }
+): Promise<PricingRuleRow> {
+  const trip = await db.get<TripRow>('SELECT * FROM trips WHERE id = ?', [tripId]);
+  if (!trip) {
+    throw new HttpError(404, 'Trip not found');
+  }
+
+  if (!Number.isInteger(input.threshold) || input.threshold < 0) {
+    throw new HttpError(400, 'threshold must be a non-negative integer');
+  }
+  if (input.rule_type === 'OCCUPANCY') {
+    if (input.threshold > 100) {
+      throw new HttpError(400, 'OCCUPANCY threshold is a percentage and must be at most 100');
+    }
+    if (input.adjustment_percent <= 0 || input.adjustment_percent > 100) {
+      throw new HttpError(400, 'OCCUPANCY adjustment_percent must be a surge between 0 and 100');
+    }
+  } else if (input.rule_type === 'EARLY_BIRD' || input.rule_type === 'GROUP') {
+    if (input.adjustment_percent >= 0 || input.adjustment_percent <= -100) {
+      throw new HttpError(400, `${input.rule_type} adjustment_percent must be a discount between -100 and 0`);
+    }
+  } else {
+    throw new HttpError(400, 'rule_type must be one of: EARLY_BIRD, OCCUPANCY, GROUP');
+  }
+
+  const rule = await db.get<PricingRuleRow>(
+    `INSERT INTO pricing_rules (id, trip_id, rule_type, threshold, adjustment_percent, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [uuidv4(), tripId, input.rule_type, input.threshold, input.adjustment_percent, new Date().toISOString()]
+  );
+
+  logger.info('Pricing rule created', { tripId, ruleType: input.rule_type, threshold: input.threshold });
+
+  return rule!;
+}
+
+export async function deletePricingRule(tripId: string, ruleId: string): Promise<void> {
+  const result = await db.run('DELETE FROM pricing_rules WHERE id = ? AND trip_id = ?', [ruleId, tripId]);
+  if (result.rowCount === 0) {
+    throw new HttpError(404, 'Pricing rule not found');
+  }
+  logger.info('Pricing rule deleted', { tripId, ruleId });
+}
+
+export async function quotePrice(tripId: string, numSeats: number, currency?: Currency): Promise<PricingBreakdown> {
+  const trip = await db.get<TripRow>('SELECT * FROM trips WHERE id = ? AND status = ?', [tripId, 'PUBLISHED']);
+  if (!trip) {
+    throw new HttpError(404, 'Trip not found or not published');
+  }
+  const rules = await getPricingRules(tripId);
+  const pricing = calculatePrice(trip, trip.available_seats, numSeats, rules);
+  return currency ? convertPricing(pricing, currency) : pricing;
+}
@@ -0,0 +1,168 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import { HttpError, STATES, TripRow, PromoCodeRow, PromoDiscountType, PromoDiscount, PricingBreakdown } from '../types';
+import { roundMoney } from './pricingService';
+import { logger } from '../utils/logger';
+
+interface PromoCodeInput {
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  trip_id?: string | null;
+  valid_from: string;
+  valid_until: string;
+  max_redemptions?: number | null;
+  max_redemptions_per_user?: number | null;
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export async function createPromoCode(input: PromoCodeInput): Promise<PromoCodeRow> {
+  const code = normalizeCode(input.code);
+  if (!/^[A-Z0-9_-]{3,50}$/.test(code)) {
+    throw new HttpError(400, 'code must be 3-50 characters of letters, digits, "-" or "_"');
+  }
+  if (input.discount_type !== 'PERCENT' && input.discount_type !== 'FIXED') {
+    throw new HttpError(400, 'discount_type must be either "PERCENT" or "FIXED"');
+  }
+  if (input.discount_value <= 0 || (input.discount_type === 'PERCENT' && input.discount_value >= 100)) {
+    throw new HttpError(400, 'discount_value must be positive, and below 100 for PERCENT codes');
+  }
+
+  const validFrom = new Date(input.valid_from);
+  const validUntil = new Date(input.valid_until);
+  if (isNaN(validFrom.getTime()) || isNaN(validUntil.getTime())) {
+    throw new HttpError(400, 'valid_from and valid_until must be valid ISO 8601 dates');
+  }
+  if (validUntil <= validFrom) {
+    throw new HttpError(400, 'valid_until must be after valid_from');
+  }
+
+  if (input.trip_id) {
+    const trip = await db.get<TripRow>('SELECT id FROM trips WHERE id = ?', [input.trip_id]);
+    if (!trip) {
+      throw new HttpError(404, 'Trip not found');
+    }
+  }
+
+  const existing = await db.get<PromoCodeRow>('SELECT id FROM promo_codes WHERE code = ?', [code]);
+  if (existing) {
+    throw new HttpError(409, `Promo code ${code} already exists`);
+  }
+
+  const nowIso = new Date().toISOString();
+  const promo = await db.get<PromoCodeRow>(
+    `INSERT INTO promo_codes
+     (id, code, discount_type, discount_value, trip_id, valid_from, valid_until,
+      max_redemptions, max_redemptions_per_user, active, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, TRUE, ?, ?)
+     RETURNING *`,
+    [
+      uuidv4(), code, input.discount_type, input.discount_value, input.trip_id || null,
+      validFrom.toISOString(), validUntil.toISOString(), input.max_redemptions || null,
+      input.max_redemptions_per_user || null, nowIso, nowIso
+    ]
+  );
+
+  logger.info('Promo code created', { code, tripId: input.trip_id || null });
+
+  return promo!;
+}
+
+export async function listPromoCodes(): Promise<(PromoCodeRow & { redemptions: number })[]> {
+  return db.all<PromoCodeRow & { redemptions: number }>(
+    `SELECT p.*, COUNT(b.id)::int as redemptions
+     FROM promo_codes p
+     LEFT JOIN promo_redemptions r ON r.promo_code_id = p.id
+     LEFT JOIN bookings b ON b.id = r.booking_id AND b.state <> ?
+     GROUP BY p.id
+     ORDER BY p.created_at DESC`,
+    [STATES.EXPIRED]
+  );
+}
+
+export async function deactivatePromoCode(promoId: string): Promise<PromoCodeRow> {
+  const promo = await db.get<PromoCodeRow>(
+    'UPDATE promo_codes SET active = FALSE, updated_at = ? WHERE id = ? RETURNING *',
+    [new Date().toISOString(), promoId]
+  );
+  if (!promo) {
+    throw new HttpError(404, 'Promo code not found');
+  }
+  logger.info('Promo code deactivated', { promoId, code: promo.code });
+  return promo;
+}
+
+/**
+ * Validates a promo code for a booking and applies it to the pricing breakdown. Must run inside
+ * the booking transaction: the promo row is locked so concurrent bookings can't exceed its
+ * redemption limits. Redemptions on EXPIRED bookings no longer count against the limits.
+ */
+export async function applyPromoCode(
+  tx: TransactionDatabase,
+  rawCode: string,
+  context: { tripId: string; userId: string; now: Date },
+  pricing: PricingBreakdown
+): Promise<PricingBreakdown> {
+  const code = normalizeCode(rawCode);
+  const promo = await tx.get<PromoCodeRow>('SELECT * FROM promo_codes WHERE code = ? FOR UPDATE', [code]);
+
+  if (!promo || !promo.active) {
+    throw new HttpError(404, 'Promo code not found');
+  }
+  if (context.now < new Date(promo.valid_from) || context.now > new Date(promo.valid_until)) {
+    throw new HttpError(400, 'Promo code is not valid at this time');
+  }
+  if (promo.trip_id && promo.trip_id !== context.tripId) {
+    throw new HttpError(400, 'Promo code is not valid for this trip');
+  }
+
+  const usage = await tx.get<{ total: number; by_user: number }>(
+    `SELECT COUNT(*)::int as total,
+            COUNT(*) FILTER (WHERE r.user_id = ?)::int as by_user
+     FROM promo_redemptions r
+     JOIN bookings b ON b.id = r.booking_id
+     WHERE r.promo_code_id = ? AND b.state <> ?`,
+    [context.userId, promo.id, STATES.EXPIRED]
+  );
+
+  if (promo.max_redemptions && (usage?.total || 0) >= promo.max_redemptions) {
+    throw new HttpError(409, 'Promo code redemption limit reached');
+  }
+  if (promo.max_redemptions_per_user && (usage?.by_user || 0) >= promo.max_redemptions_per_user) {
+    throw new HttpError(409, 'Promo code already redeemed the maximum number of times by this user');
+  }
+
+  const discountValue = Number(promo.discount_value);
+  const rawDiscount = promo.discount_type === 'PERCENT'
+    ? pricing.subtotal * (discountValue / 100)
+    : discountValue;
+  // Never discount a booking down to zero; price_at_booking must stay positive
+  const amount = roundMoney(Math.min(rawDiscount, pricing.subtotal - 0.01));
+
+  const discount: PromoDiscount = {
+    promo_code_id: promo.id,
+    code: promo.code,
+    discount_type: promo.discount_type,
+    discount_value: discountValue,
+    amount,
+  };
+
+  return { ...pricing, promo: discount, total: roundMoney(pricing.subtotal - amount) };
+}
+
+export async function recordRedemption(
+  tx: TransactionDatabase,
+  discount: PromoDiscount,
+  bookingId: string,
+  userId: string,
+  nowIso: string
+): Promise<void> {
+  await tx.run(
+    `INSERT INTO promo_redemptions (id, promo_code_id, booking_id, user_id, discount_amount, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [uuidv4(), discount.promo_code_id, bookingId, userId, discount.amount, nowIso]
+  );
+}
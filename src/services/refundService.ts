@@ -1,103 +1,685 @@
-import { db } from '../db/database';
-import { STATES, EVENTS, HttpError, BookingRow } from '../types';
-import { transition } from '../utils/stateMachine';
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import {
+  STATES, EVENTS, HttpError, BookingRow, BookingEvent, PaymentRow, RefundLineRow, RefundRow, RefundStatus, REFUND_STATUSES, RefundTier,
+  RefundQuote, AuthContext, CancellationReasonCode, CANCELLATION_REASON_CODES, CancellationOverride, TripRow
+} from '../types';
 import { logger } from '../utils/logger';
+import { assertCanActAs } from '../utils/auth';
+import { findRefundTier, getRefundTiers, refundWorsensAt } from '../utils/refundPolicy';
+import { offerReleasedSeats } from './waitlistService';
+import { recordCancellationFee, recordPaymentUnapplied } from './ledgerService';
+import { getRate } from './fxService';
+import { transitionBooking, applyEffects, actorName, CancellationSettlement } from './bookingEventService';
+import { assertTransition, resolveTransition, BookingEffect } from '../utils/stateMachine';
 
 interface BookingWithTripDetails extends BookingRow {
   start_date: string;
   refundable_until_days_before: number;
   cancellation_fee_percent: number;
+  refund_tiers: RefundTier[] | null;
 }
 
-function daysUntil(dateStr: string): number {
+export interface AdminCancellationInput {
+  reason_code: CancellationReasonCode;
+  note: string;
+  refund_amount?: number;
+  refund_percent?: number;
+  release_seats?: boolean;
+}
+
+interface CancellationTerms {
+  event: BookingEvent;
+  tier: RefundTier | null;
+  refundAmount: number;
+  feeRetained: number;
+  effects: BookingEffect[];
+  releasesSeats: boolean;
+  worsensAt: Date | null;
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function daysUntil(dateStr: string, now: Date = new Date()): number {
   const target = new Date(dateStr);
-  const now = new Date();
   return (target.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
 }
 
-export async function cancelBookingWithRefund(bookingId: string): Promise<BookingRow> {
-  return db.transaction(async () => {
-    const booking = await db.get<BookingWithTripDetails>(
-      `SELECT b.*, t.start_date, t.refundable_until_days_before, t.cancellation_fee_percent
-       FROM bookings b
-       JOIN trips t ON b.trip_id = t.id
-       WHERE b.id = ?`,
-      [bookingId]
+async function getBookingWithTrip(
+  conn: Pick<TransactionDatabase, 'get'>,
+  bookingId: string,
+  forUpdate = false
+): Promise<BookingWithTripDetails | undefined> {
+  return conn.get<BookingWithTripDetails>(
+    `SELECT b.*, t.start_date, t.refundable_until_days_before, t.cancellation_fee_percent, t.refund_tiers
+     FROM bookings b
+     JOIN trips t ON b.trip_id = t.id
+     WHERE b.id = ?${forUpdate ? ' FOR UPDATE OF b' : ''}`,
+    [bookingId]
+  );
+}
+
+/**
+ * Eligibility and refund math for cancelling the rest of a booking at `now`, shared by the
+ * cancellation itself and by refund quotes. Throws the same errors the cancellation fails with.
+ */
+function getCancellationTerms(booking: BookingWithTripDetails, remainingValue: number, now: Date): CancellationTerms {
+  const tiers = getRefundTiers(booking);
+  const tier = findRefundTier(tiers, daysUntil(booking.start_date, now));
+  // The state machine decides whether the booking can still be cancelled and whether seats go back
+  const definition = resolveTransition(
+    [EVENTS.CANCEL_BEFORE_CUTOFF, EVENTS.CANCEL_AFTER_CUTOFF],
+    { booking, now, refundTier: tier }
+  );
+
+  // Past the last tier there is no refund
+  const refundAmount = tier ? Number((remainingValue * (tier.refund_percent / 100)).toFixed(2)) : 0;
+  return {
+    event: definition.event,
+    tier,
+    refundAmount,
+    // Only a paid booking leaves money behind to retain
+    feeRetained: booking.state === STATES.CONFIRMED ? Number((remainingValue - refundAmount).toFixed(2)) : 0,
+    effects: definition.effects,
+    releasesSeats: definition.effects.includes('releaseSeats'),
+    worsensAt: refundWorsensAt(tiers, tier, new Date(booking.start_date)),
+  };
+}
+
+/**
+ * Value of the seats still held on a booking: price_at_booking minus the share already given up by
+ * partial cancellations. price_at_booking itself is never reduced so revenue figures keep the amount charged.
+ */
+export async function getRemainingValue(
+  booking: Pick<BookingRow, 'id' | 'price_at_booking'>,
+  conn: Pick<TransactionDatabase, 'get'> = db
+): Promise<number> {
+  const result = await conn.get<{ cancelled_value: string }>(
+    'SELECT COALESCE(SUM(seat_value), 0) as cancelled_value FROM booking_refund_lines WHERE booking_id = ?',
+    [booking.id]
+  );
+  return Number((Number(booking.price_at_booking) - Number(result?.cancelled_value || 0)).toFixed(2));
+}
+
+export async function getRefundLines(bookingId: string): Promise<RefundLineRow[]> {
+  return db.all<RefundLineRow>(
+    'SELECT * FROM booking_refund_lines WHERE booking_id = ? ORDER BY created_at ASC',
+    [bookingId]
+  );
+}
+
+export async function getBookingRefunds(bookingId: string): Promise<RefundRow[]> {
+  return db.all<RefundRow>('SELECT * FROM refunds WHERE booking_id = ? ORDER BY created_at ASC', [bookingId]);
+}
+
+/**
+ * Records the refund owed on a booking against the payments that settled it, newest first. Each
+ * payment gives back at most what earlier refunds haven't already claimed on it, so the refund is
+ * split when one payment can't cover it. Payments sent back as unapplied don't count. Bookings
+ * cancelled before anything was paid have no such payment, so there is nothing to send back; any
+ * other shortfall is logged for finance rather than refunded.
+ */
+export async function requestRefund(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  amount: number,
+  refundLineId: string | null,
+  nowIso: string
+): Promise<RefundRow[]> {
+  if (amount <= 0) return [];
+
+  const payments = await tx.all<PaymentRow & { unrefunded: string }>(
+    `SELECT p.*, (p.amount - COALESCE(SUM(r.amount), 0))::numeric(10,2) as unrefunded
+     FROM payments p
+     LEFT JOIN refunds r ON r.payment_id = p.id
+     WHERE p.booking_id = ? AND p.status = ?
+       AND NOT EXISTS (SELECT 1 FROM refunds u WHERE u.payment_id = p.id AND u.kind = ?)
+     GROUP BY p.id
+     ORDER BY p.attempt DESC`,
+    [booking.id, 'SUCCEEDED', 'UNAPPLIED_PAYMENT']
+  );
+  if (payments.length === 0) {
+    logger.info('No settled payment to refund', { bookingId: booking.id, amount });
+    return [];
+  }
+
+  const refunds: RefundRow[] = [];
+  let remainingCents = toCents(amount);
+  for (const payment of payments) {
+    const partCents = Math.min(remainingCents, toCents(payment.unrefunded));
+    if (partCents <= 0) continue;
+    const refund = await tx.get<RefundRow>(
+      `INSERT INTO refunds (id, booking_id, payment_id, refund_line_id, amount, currency, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [uuidv4(), booking.id, payment.id, refundLineId, partCents / 100, booking.currency, 'REQUESTED', nowIso, nowIso]
     );
+    logger.info('Refund requested', {
+      refundId: refund!.id,
+      bookingId: booking.id,
+      paymentId: payment.id,
+      amount: refund!.amount,
+      currency: booking.currency,
+    });
+    refunds.push(refund!);
+    remainingCents -= partCents;
+  }
+
+  if (remainingCents > 0) {
+    logger.error('Refund exceeds what the booking\'s payments can return', {
+      bookingId: booking.id,
+      requested: amount,
+      shortfall: remainingCents / 100,
+      currency: booking.currency,
+    });
+  }
+
+  return refunds;
+}
+
+// Rate from trip currency to the payment's currency, for the ledger. A payment in the booking's
+// currency uses the booking's rate; one in another currency uses the current rate if there is one.
+async function unappliedPaymentRate(tx: TransactionDatabase, booking: BookingRow, payment: PaymentRow, nowIso: string): Promise<number> {
+  if (payment.currency === booking.currency) return Number(booking.fx_rate);
+  const trip = await tx.get<Pick<TripRow, 'currency'>>('SELECT currency FROM trips WHERE id = ?', [booking.trip_id]);
+  try {
+    return await getRate(trip!.currency, payment.currency, new Date(nowIso), tx);
+  } catch {
+    logger.warn('No exchange rate for unapplied payment, using the booking rate', {
+      bookingId: booking.id,
+      paymentId: payment.id,
+      currency: payment.currency,
+    });
+    return Number(booking.fx_rate);
+  }
+}
+
+/**
+ * Sends back a successful payment that was not applied to its booking: the booking had expired or
+ * been cancelled, was already paid, or the amount or currency didn't match. The whole payment is
+ * refunded in its own currency and held in UNAPPLIED_PAYMENTS on the ledger until the refund is
+ * paid. A payment is only ever sent back once, so redelivered webhooks are no-ops.
+ */
+export async function refundUnappliedPayment(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  payment: PaymentRow,
+  nowIso: string
+): Promise<RefundRow | null> {
+  if (payment.status !== 'SUCCEEDED' || !(Number(payment.amount) > 0)) return null;
+
+  const existing = await tx.get<RefundRow>(
+    'SELECT * FROM refunds WHERE payment_id = ? AND kind = ?',
+    [payment.id, 'UNAPPLIED_PAYMENT']
+  );
+  if (existing) return null;
+
+  const fxRate = await unappliedPaymentRate(tx, booking, payment, nowIso);
+  await recordPaymentUnapplied(tx, { id: booking.id, trip_id: booking.trip_id, currency: payment.currency, fx_rate: fxRate }, payment, nowIso);
+
+  const refund = await tx.get<RefundRow>(
+    `INSERT INTO refunds (id, booking_id, payment_id, kind, amount, currency, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [uuidv4(), booking.id, payment.id, 'UNAPPLIED_PAYMENT', payment.amount, payment.currency, 'REQUESTED', nowIso, nowIso]
+  );
+
+  logger.warn('Unapplied payment refund requested', {
+    refundId: refund!.id,
+    bookingId: booking.id,
+    bookingState: booking.state,
+    paymentId: payment.id,
+    amount: payment.amount,
+    currency: payment.currency,
+  });
+
+  return refund!;
+}
+
+/**
+ * Sends back every successful payment on a booking that ended without being confirmed, such as a
+ * payment waiting for the passenger list when the hold expired. Runs as a state machine effect.
+ */
+export async function refundUnappliedPayments(tx: TransactionDatabase, booking: BookingRow, nowIso: string): Promise<void> {
+  const payments = await tx.all<PaymentRow>(
+    'SELECT * FROM payments WHERE booking_id = ? AND status = ? ORDER BY attempt ASC',
+    [booking.id, 'SUCCEEDED']
+  );
+  for (const payment of payments) {
+    await refundUnappliedPayment(tx, booking, payment, nowIso);
+  }
+}
+
+/**
+ * Refunds what a cancellation settled on and moves the value kept out of SALES as a cancellation
+ * fee. Runs as the refundCancellation state machine effect; the refunds are submitted after commit.
+ */
+export async function settleCancellation(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  settlement: CancellationSettlement,
+  nowIso: string
+): Promise<RefundRow[]> {
+  const refunds = await requestRefund(tx, booking, settlement.refundAmount, settlement.refundLineId ?? null, nowIso);
+  await recordCancellationFee(tx, booking, settlement.feeRetained, settlement.feeDescription, nowIso);
+  return refunds;
+}
+
+/**
+ * Hands a REQUESTED (or FAILED, when retrying) refund to the payment provider. Each attempt gets a
+ * fresh provider reference, so a late webhook for an earlier attempt can't settle the retry.
+ */
+export async function submitRefund(refundId: string, fromStatuses: RefundStatus[] = ['REQUESTED']): Promise<RefundRow> {
+  const nowIso = new Date().toISOString();
+  const refund = await db.get<RefundRow>(
+    `UPDATE refunds
+     SET status = ?, provider_reference = ?, attempts = attempts + 1, failure_reason = NULL, updated_at = ?
+     WHERE id = ? AND status = ANY(?)
+     RETURNING *`,
+    ['PROCESSING', `refund_${uuidv4()}`, nowIso, refundId, fromStatuses]
+  );
+  if (!refund) {
+    const current = await db.get<RefundRow>('SELECT * FROM refunds WHERE id = ?', [refundId]);
+    if (!current) {
+      throw new HttpError(404, 'Refund not found');
+    }
+    throw new HttpError(409, `Cannot submit refund in status: ${current.status}`);
+  }
+
+  logger.info('Refund submitted to payment provider', {
+    refundId,
+    bookingId: refund.booking_id,
+    providerReference: refund.provider_reference,
+    attempt: refund.attempts,
+  });
+
+  return refund;
+}
+
+/**
+ * Submits refunds created by a committed cancellation. Like offerReleasedSeats, failures are logged
+ * rather than thrown: the cancellation stands and the refund stays REQUESTED for an admin to retry.
+ */
+export async function submitRequestedRefund(refund: RefundRow | null): Promise<RefundRow | null> {
+  if (!refund) return null;
+  try {
+    return await submitRefund(refund.id);
+  } catch (err) {
+    logger.error('Failed to submit refund', {
+      refundId: refund.id,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+    return refund;
+  }
+}
+
+export async function submitRequestedRefunds(refunds: RefundRow[]): Promise<RefundRow[]> {
+  const submitted: RefundRow[] = [];
+  for (const refund of refunds) {
+    submitted.push((await submitRequestedRefund(refund))!);
+  }
+  return submitted;
+}
+
+/**
+ * Submits unapplied-payment refunds still REQUESTED. Those requested by state machine effects are
+ * created inside other flows' transactions and wait for this sweep, which the expiry job runs.
+ */
+export async function submitUnappliedRefunds(): Promise<void> {
+  const refunds = await db.all<RefundRow>(
+    'SELECT * FROM refunds WHERE kind = ? AND status = ? ORDER BY created_at ASC',
+    ['UNAPPLIED_PAYMENT', 'REQUESTED']
+  );
+  for (const refund of refunds) {
+    await submitRequestedRefund(refund);
+  }
+}
+
+export async function retryRefund(refundId: string): Promise<RefundRow> {
+  return submitRefund(refundId, ['REQUESTED', 'FAILED']);
+}
+
+/**
+ * Lists refunds for the admin view, newest first. Without a status filter only outstanding refunds
+ * (anything not yet SUCCEEDED) are returned.
+ */
+export async function listRefunds(status?: RefundStatus): Promise<(RefundRow & { user_id: string; trip_id: string })[]> {
+  if (status && !REFUND_STATUSES.includes(status)) {
+    throw new HttpError(400, `status must be one of: ${REFUND_STATUSES.join(', ')}`);
+  }
+  const statuses = status ? [status] : REFUND_STATUSES.filter((value) => value !== 'SUCCEEDED');
+  return db.all<RefundRow & { user_id: string; trip_id: string }>(
+    `SELECT r.*, b.user_id, b.trip_id
+     FROM refunds r
+     JOIN bookings b ON b.id = r.booking_id
+     WHERE r.status = ANY(?)
+     ORDER BY r.created_at DESC`,
+    [statuses]
+  );
+}
+
+/**
+ * What cancelling the booking right now would do, without cancelling it. Eligibility and amounts
+ * come from the same rules as cancelBookingWithRefund; `worsens_at` is when waiting would cost the
+ * customer (a lower refund, or seats no longer released).
+ */
+export async function quoteRefund(bookingId: string, actor?: AuthContext): Promise<RefundQuote> {
+  const booking = await getBookingWithTrip(db, bookingId);
+  if (!booking) {
+    throw new HttpError(404, 'Booking not found');
+  }
+  if (actor) {
+    assertCanActAs(actor, booking.user_id);
+  }
+
+  const remainingValue = await getRemainingValue(booking);
+  const now = new Date();
+  const terms = getCancellationTerms(booking, remainingValue, now);
+
+  return {
+    booking_id: booking.id,
+    state: booking.state,
+    currency: booking.currency,
+    remaining_value: remainingValue,
+    refund_amount: terms.refundAmount,
+    fee_retained: terms.feeRetained,
+    releases_seats: terms.releasesSeats,
+    tier: terms.tier,
+    quoted_at: now.toISOString(),
+    worsens_at: terms.worsensAt ? terms.worsensAt.toISOString() : null,
+  };
+}
+
+export async function cancelBookingWithRefund(bookingId: string, actor?: AuthContext): Promise<BookingRow> {
+  let releasedSeatsTripId: string | null = null;
+  let requestedRefunds: RefundRow[] = [];
+
+  const updated = await db.transaction(async (tx) => {
+    const booking = await getBookingWithTrip(tx, bookingId, true);
 
     if (!booking) {
       throw new HttpError(404, 'Booking not found');
     }
+    if (actor) {
+      assertCanActAs(actor, booking.user_id);
+    }
 
-    if (booking.state === STATES.CANCELLED || booking.state === STATES.EXPIRED) {
-      throw new HttpError(409, 'Booking already cancelled or expired');
+    // price_at_booking is in the charged currency, so refunds are paid back in that currency too.
+    // Seats given up by earlier partial cancellations have already been refunded separately.
+    const remainingValue = await getRemainingValue(booking, tx);
+    const now = new Date();
+    const { event, tier, refundAmount, feeRetained } = getCancellationTerms(booking, remainingValue, now);
+    const previousRefunds = Number(booking.refund_amount || 0);
+    const nowIso = now.toISOString();
+
+    const { booking: updated, seatsReleased, refunds } = await transitionBooking(
+      tx, booking, event, { actor: actorName(actor), source: 'booking_api', nowIso },
+      {
+        facts: { refundTier: tier },
+        changes: { refund_amount: Number((previousRefunds + refundAmount).toFixed(2)), cancelled_at: nowIso },
+        settlement: { refundAmount, feeRetained, feeDescription: 'Cancellation fee retained' },
+      }
+    );
+    requestedRefunds = refunds;
+
+    if (seatsReleased > 0) {
+      releasedSeatsTripId = booking.trip_id;
+
+      logger.info('Seats released on cancellation', {
+        tripId: booking.trip_id,
+        seatsReleased,
+        bookingId,
+      });
     }
 
-    // Prevent cancelling PENDING_PAYMENT bookings that have been processed by webhook
-    if (booking.state === STATES.PENDING_PAYMENT && booking.idempotency_key) {
-      throw new HttpError(409, 'Cannot cancel pending payment that has been processed by payment webhook');
+    logger.info('Booking cancelled successfully', {
+      bookingId,
+      originalState: booking.state,
+      refundable: tier !== null,
+      refundPercent: tier?.refund_percent ?? 0,
+      refundAmount,
+      currency: booking.currency,
+      daysUntilTrip: Math.round(daysUntil(booking.start_date, now)),
+    });
+
+    return updated;
+  });
+
+  await submitRequestedRefunds(requestedRefunds);
+  if (releasedSeatsTripId) {
+    await offerReleasedSeats(releasedSeatsTripId);
+  }
+
+  return updated;
+}
+
+/**
+ * Cancels a booking in any non-terminal state on an admin's say-so. The trip policy only provides
+ * defaults: an explicit refund_amount or refund_percent (of the remaining value) replaces the
+ * policy refund, and release_seats forces seats back on sale even after the cutoff. The reason,
+ * note, admin and what was overridden are stored on the booking.
+ */
+export async function adminCancelBooking(
+  bookingId: string,
+  input: AdminCancellationInput,
+  actor: AuthContext
+): Promise<{ booking: BookingRow; refund: RefundRow | null; refunds: RefundRow[] }> {
+  if (!CANCELLATION_REASON_CODES.includes(input.reason_code)) {
+    throw new HttpError(400, `reason_code must be one of: ${CANCELLATION_REASON_CODES.join(', ')}`);
+  }
+  const note = input.note?.trim();
+  if (!note) {
+    throw new HttpError(400, 'note is required');
+  }
+  if (input.refund_amount !== undefined && input.refund_percent !== undefined) {
+    throw new HttpError(400, 'Pass either refund_amount or refund_percent, not both');
+  }
+  if (input.refund_amount !== undefined && !(input.refund_amount >= 0)) {
+    throw new HttpError(400, 'refund_amount must be a non-negative number');
+  }
+  if (input.refund_percent !== undefined && !(input.refund_percent >= 0 && input.refund_percent <= 100)) {
+    throw new HttpError(400, 'refund_percent must be between 0 and 100');
+  }
+
+  let releasedSeatsTripId: string | null = null;
+  let requestedRefunds: RefundRow[] = [];
+
+  const updated = await db.transaction(async (tx) => {
+    const booking = await getBookingWithTrip(tx, bookingId, true);
+    if (!booking) {
+      throw new HttpError(404, 'Booking not found');
     }
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const adminCancel = assertTransition(EVENTS.ADMIN_CANCEL, { booking, now });
+    const remainingValue = await getRemainingValue(booking, tx);
+    const paid = booking.state === STATES.CONFIRMED;
 
-    const daysLeft = daysUntil(booking.start_date);
-    const refundable = daysLeft > booking.refundable_until_days_before;
+    // A paid booking defaults to what its customer would get cancelling now. A hold has nothing to
+    // refund and defaults to the admin cancellation's own effects, as it would on expiry.
+    const policy = paid ? getCancellationTerms(booking, remainingValue, now) : null;
+    const policyReleasesSeats = policy ? policy.releasesSeats : adminCancel.effects.includes('releaseSeats');
+    const policyRefund = policy ? policy.refundAmount : 0;
+    let refundAmount = policyRefund;
+    if (input.refund_amount !== undefined) {
+      refundAmount = Number(input.refund_amount.toFixed(2));
+    } else if (input.refund_percent !== undefined) {
+      refundAmount = Number((remainingValue * (input.refund_percent / 100)).toFixed(2));
+    }
 
-    if (booking.state === STATES.PENDING_PAYMENT && !refundable) {
-      throw new HttpError(409, 'Cannot cancel pending payment after refund cutoff');
+    if (!paid && refundAmount > 0) {
+      throw new HttpError(409, 'Booking has not been paid, so there is nothing to refund');
+    }
+    if (refundAmount > remainingValue) {
+      throw new HttpError(400, `refund_amount cannot exceed the remaining booking value of ${remainingValue} ${booking.currency}`);
     }
 
-    let refundAmount = 0;
-    let shouldReleaseSeats = false;
+    const shouldReleaseSeats = input.release_seats ?? policyReleasesSeats;
+    const override: CancellationOverride = {
+      refund_amount: refundAmount,
+      refund_percent: input.refund_percent ?? null,
+      policy_refund_amount: policyRefund,
+      release_seats: shouldReleaseSeats,
+      policy_releases_seats: policyReleasesSeats,
+    };
 
-    if (booking.state === STATES.PENDING_PAYMENT) {
-      if (refundable) {
-        const feePercent = booking.cancellation_fee_percent || 0;
-        refundAmount = Number((booking.price_at_booking * (1 - feePercent / 100)).toFixed(2));
-        shouldReleaseSeats = true; // Release seats immediately before cutoff
+    const { booking: cancelled, seatsReleased, refunds } = await transitionBooking(
+      tx, booking, EVENTS.ADMIN_CANCEL, { actor: actor.subject, source: 'admin_api', nowIso },
+      {
+        changes: {
+          refund_amount: Number((Number(booking.refund_amount || 0) + refundAmount).toFixed(2)),
+          cancelled_at: nowIso,
+          cancellation_reason_code: input.reason_code,
+          cancellation_note: note,
+          cancelled_by: actor.subject,
+          cancellation_override: JSON.stringify(override),
+        },
+        effectOverrides: { releaseSeats: shouldReleaseSeats },
+        settlement: {
+          refundAmount,
+          feeRetained: Number((remainingValue - refundAmount).toFixed(2)),
+          feeDescription: `Retained on admin cancellation (${input.reason_code})`,
+        },
       }
+    );
+    requestedRefunds = refunds;
+
+    if (seatsReleased > 0) {
+      releasedSeatsTripId = booking.trip_id;
+    }
 
-    } else if (booking.state === STATES.CONFIRMED) {
-      if (refundable) {
-        const feePercent = booking.cancellation_fee_percent || 0;
-        refundAmount = Number((booking.price_at_booking * (1 - feePercent / 100)).toFixed(2));
-        shouldReleaseSeats = true; // Release seats immediately before cutoff
-      } else {
-        refundAmount = 0;
-        // Don't release seats after cutoff (trip is imminent)
+    logger.info('Booking cancelled by admin', {
+      bookingId,
+      admin: actor.subject,
+      originalState: booking.state,
+      reasonCode: input.reason_code,
+      refundAmount,
+      policyRefundAmount: policyRefund,
+      currency: booking.currency,
+      seatsReleased,
+    });
+
+    return cancelled;
+  });
+
+  const refunds = await submitRequestedRefunds(requestedRefunds);
+  if (releasedSeatsTripId) {
+    await offerReleasedSeats(releasedSeatsTripId);
+  }
+
+  // `refund` is the first of `refunds`; a booking paid in several payments is refunded per payment
+  return { booking: updated, refund: refunds[0] || null, refunds };
+}
+
+/**
+ * Cancels some of the seats on a confirmed booking. The cancelled seats' proportional share of the
+ * remaining booking value is refunded under the trip's refund policy and recorded as a refund line;
+ * the booking keeps its other seats and stays CONFIRMED.
+ */
+export async function cancelSeatsWithRefund(
+  bookingId: string,
+  numSeats: number,
+  passengerIds: string[] = []
+): Promise<{ booking: BookingRow; refund_line: RefundLineRow; refund: RefundRow | null; refunds: RefundRow[] }> {
+  if (!Number.isInteger(numSeats) || numSeats <= 0) {
+    throw new HttpError(400, 'num_seats must be a positive integer');
+  }
+
+  let releasedSeatsTripId: string | null = null;
+  let requestedRefunds: RefundRow[] = [];
+
+  const result = await db.transaction(async (tx) => {
+    const booking = await getBookingWithTrip(tx, bookingId, true);
+
+    if (!booking) {
+      throw new HttpError(404, 'Booking not found');
+    }
+    if (booking.state !== STATES.CONFIRMED) {
+      throw new HttpError(409, `Only confirmed bookings can be partially cancelled, booking is ${booking.state}`);
+    }
+    if (numSeats >= booking.num_seats) {
+      throw new HttpError(400, `num_seats must be less than the ${booking.num_seats} seats booked; cancel the booking instead`);
+    }
+
+    // Passengers travelling on the cancelled seats have to be named once the list would overflow
+    const passengerCount = await tx.get<{ total: number }>(
+      'SELECT COUNT(*)::int as total FROM booking_passengers WHERE booking_id = ?',
+      [bookingId]
+    );
+    const remainingSeats = booking.num_seats - numSeats;
+    if (passengerIds.length > 0) {
+      if (passengerIds.length !== numSeats || new Set(passengerIds).size !== numSeats) {
+        throw new HttpError(400, `passenger_ids must list exactly ${numSeats} distinct passengers`);
+      }
+      const removed = await tx.run(
+        'DELETE FROM booking_passengers WHERE booking_id = ? AND id = ANY(?)',
+        [bookingId, passengerIds]
+      );
+      if (removed.rowCount !== numSeats) {
+        throw new HttpError(400, 'passenger_ids must belong to this booking');
       }
+    } else if ((passengerCount?.total || 0) > remainingSeats) {
+      throw new HttpError(400, `passenger_ids is required to choose which ${numSeats} passengers are cancelled`);
     }
 
-    const nowIso = new Date().toISOString();
-    
-    // Update booking state and get it back using RETURNING
-    const updated = await db.get<BookingRow>(
-      `UPDATE bookings SET state = ?, refund_amount = ?, cancelled_at = ?, updated_at = ? WHERE id = ? RETURNING *`,
-      [STATES.CANCELLED, refundAmount, nowIso, nowIso, bookingId]
+    const remainingValue = await getRemainingValue(booking, tx);
+    const seatValue = Number((remainingValue * (numSeats / booking.num_seats)).toFixed(2));
+    // The seats get what cancelling the whole booking now would: its refund terms and its effects,
+    // without the state change
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const { tier, refundAmount, feeRetained, effects, releasesSeats } = getCancellationTerms(booking, seatValue, now);
+
+    const refundLine = await tx.get<RefundLineRow>(
+      `INSERT INTO booking_refund_lines
+       (id, booking_id, num_seats, seat_value, refund_amount, currency, seats_released, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [uuidv4(), bookingId, numSeats, seatValue, refundAmount, booking.currency, releasesSeats, nowIso]
     );
 
-    // Release seats if before cutoff
-    if (shouldReleaseSeats) {
-      await db.run(
-        `UPDATE trips 
-         SET available_seats = available_seats + ?, updated_at = ? 
-         WHERE id = ?`,
-        [booking.num_seats, nowIso, booking.trip_id]
-      );
-      
-      logger.info('Seats released on cancellation', {
-        tripId: booking.trip_id,
-        seatsReleased: booking.num_seats,
-        bookingId,
-      });
+    const updated = await tx.get<BookingRow>(
+      `UPDATE bookings
+       SET num_seats = num_seats - ?, refund_amount = COALESCE(refund_amount, 0) + ?, updated_at = ?
+       WHERE id = ?
+       RETURNING *`,
+      [numSeats, refundAmount, nowIso, bookingId]
+    );
+
+    const { seatsReleased, refunds } = await applyEffects(tx, updated!, effects, {
+      seats: numSeats,
+      settlement: {
+        refundAmount,
+        feeRetained,
+        feeDescription: `Cancellation fee retained on ${numSeats} seat(s)`,
+        refundLineId: refundLine!.id,
+      },
+    }, { actor: actorName(), source: 'booking_api', nowIso });
+    requestedRefunds = refunds;
+
+    if (seatsReleased > 0) {
+      releasedSeatsTripId = booking.trip_id;
     }
 
-    logger.info('Booking cancelled successfully', {
+    logger.info('Booking partially cancelled', {
       bookingId,
-      originalState: booking.state,
-      refundable,
+      seatsCancelled: numSeats,
+      seatsRemaining: remainingSeats,
+      refundable: tier !== null,
       refundAmount,
-      daysUntilTrip: Math.round(daysLeft),
+      currency: booking.currency,
+      seatsReleased,
     });
 
-    return updated!;
+    return { booking: updated!, refund_line: refundLine! };
   });
+
+  const refunds = await submitRequestedRefunds(requestedRefunds);
+  if (releasedSeatsTripId) {
+    await offerReleasedSeats(releasedSeatsTripId);
+  }
+
+  return { ...result, refund: refunds[0] || null, refunds };
 }
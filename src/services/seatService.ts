@@ -0,0 +1,19 @@
+import { TransactionDatabase } from '../db/database';
+
+/**
+ * Seat counter updates on a trip. Callers hold the trip or booking lock and have already checked
+ * that taking seats can't oversell the trip.
+ */
+export async function releaseSeats(tx: TransactionDatabase, tripId: string, numSeats: number, nowIso: string): Promise<void> {
+  await tx.run(
+    'UPDATE trips SET available_seats = available_seats + ?, updated_at = ? WHERE id = ?',
+    [numSeats, nowIso, tripId]
+  );
+}
+
+export async function takeSeats(tx: TransactionDatabase, tripId: string, numSeats: number, nowIso: string): Promise<void> {
+  await tx.run(
+    'UPDATE trips SET available_seats = available_seats - ?, updated_at = ? WHERE id = ?',
+    [numSeats, nowIso, tripId]
+  );
+}
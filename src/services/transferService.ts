@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import { STATES, HttpError, TripRow, BookingRow, BookingTransferRow, PaymentRow, RefundRow } from '../types';
+import { Trip } from '../models/Trip';
+import { logger } from '../utils/logger';
+import { calculatePrice, getPricingRules, roundMoney } from './pricingService';
+import { convertPricing } from './fxService';
+import { getRemainingValue, requestRefund, submitRequestedRefunds } from './refundService';
+import { recordTransfer, recordTransferSettlement } from './ledgerService';
+import { offerReleasedSeats } from './waitlistService';
+import { releaseSeats, takeSeats } from './seatService';
+
+function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Moves a confirmed booking to another published trip. Both trip rows are locked in id order so two
+ * transfers between the same pair of trips can't deadlock. The seats are repriced on the target trip
+ * (in the booking's currency) and the booking's remaining sales move to it on the ledger. The
+ * customer owes the fare difference plus the original trip's change fee: a positive amount waits
+ * for payment (see applyTransferPayment) before price_at_booking goes up, a credit is refunded now.
+ */
+export async function transferBooking(
+  bookingId: string,
+  targetTripId: string
+): Promise<{ booking: BookingRow; transfer: BookingTransferRow; refunds: RefundRow[] }> {
+  let releasedSeatsTripId: string | null = null;
+  let requestedRefunds: RefundRow[] = [];
+
+  const result = await db.transaction(async (tx) => {
+    const current = await tx.get<BookingRow>('SELECT * FROM bookings WHERE id = ?', [bookingId]);
+    if (!current) {
+      throw new HttpError(404, 'Booking not found');
+    }
+    if (current.trip_id === targetTripId) {
+      throw new HttpError(400, 'Booking is already on the target trip');
+    }
+
+    const trips = await tx.all<TripRow>(
+      'SELECT * FROM trips WHERE id IN (?, ?) ORDER BY id FOR UPDATE',
+      [current.trip_id, targetTripId]
+    );
+    const sourceTrip = trips.find((trip) => trip.id === current.trip_id)!;
+    const targetTrip = Trip.fromRow(trips.find((trip) => trip.id === targetTripId));
+    if (!targetTrip || targetTrip.status !== 'PUBLISHED') {
+      throw new HttpError(404, 'Target trip not found or not published');
+    }
+
+    // Re-read the booking under lock now that the trips are held
+    const booking = await tx.get<BookingRow>('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
+    if (!booking || booking.trip_id !== sourceTrip.id) {
+      throw new HttpError(409, 'Booking changed while transferring. Please retry');
+    }
+    if (booking.state !== STATES.CONFIRMED) {
+      throw new HttpError(409, `Only confirmed bookings can change trip, booking is ${booking.state}`);
+    }
+    const unpaid = await tx.get<BookingTransferRow>(
+      'SELECT * FROM booking_transfers WHERE booking_id = ? AND status = ?',
+      [bookingId, 'AWAITING_PAYMENT']
+    );
+    if (unpaid) {
+      throw new HttpError(409, `The previous trip change is awaiting payment of ${unpaid.amount_due} ${unpaid.currency}`);
+    }
+
+    const now = new Date();
+    if (new Date(sourceTrip.start_date) <= now) {
+      throw new HttpError(409, 'Cannot change trip after the original trip has started');
+    }
+    if (new Date(targetTrip.start_date) <= now) {
+      throw new HttpError(409, 'Target trip has already started');
+    }
+    if (targetTrip.available_seats < booking.num_seats) {
+      throw new HttpError(
+        409,
+        `Not enough seats available on the target trip. ${targetTrip.available_seats} seats remaining, ${booking.num_seats} requested`
+      );
+    }
+
+    const pricingRules = await getPricingRules(targetTrip.id);
+    let pricing = calculatePrice(targetTrip, targetTrip.available_seats, booking.num_seats, pricingRules, now);
+    pricing = await convertPricing(pricing, booking.currency, now, tx);
+    const newValue = pricing.conversion ? pricing.conversion.total : pricing.total;
+    const fxRate = pricing.conversion ? pricing.conversion.rate : 1;
+
+    const previousValue = await getRemainingValue(booking, tx);
+    const fareDifference = roundMoney(newValue - previousValue);
+    const changeFee = roundMoney(previousValue * ((sourceTrip.change_fee_percent || 0) / 100));
+    // Positive: the customer owes the difference; negative: the customer is credited
+    const amountDue = roundMoney(fareDifference + changeFee);
+    const awaitingPayment = amountDue > 0;
+    const nowIso = now.toISOString();
+
+    await releaseSeats(tx, sourceTrip.id, booking.num_seats, nowIso);
+    await takeSeats(tx, targetTrip.id, booking.num_seats, nowIso);
+
+    // Until the amount due is paid the booking is still worth what the customer paid for it
+    const updated = await tx.get<BookingRow>(
+      `UPDATE bookings
+       SET trip_id = ?, price_at_booking = price_at_booking + ?, fx_rate = ?, pricing_breakdown = ?, updated_at = ?
+       WHERE id = ?
+       RETURNING *`,
+      [targetTrip.id, awaitingPayment ? 0 : fareDifference, fxRate, JSON.stringify(pricing), nowIso, bookingId]
+    );
+
+    const transfer = await tx.get<BookingTransferRow>(
+      `INSERT INTO booking_transfers
+       (id, booking_id, from_trip_id, to_trip_id, num_seats, previous_value, new_value, fare_difference,
+        change_fee, amount_due, currency, from_fx_rate, status, created_at, settled_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [
+        uuidv4(), bookingId, sourceTrip.id, targetTrip.id, booking.num_seats, previousValue, newValue,
+        fareDifference, changeFee, amountDue, booking.currency, booking.fx_rate,
+        awaitingPayment ? 'AWAITING_PAYMENT' : 'SETTLED', nowIso, awaitingPayment ? null : nowIso
+      ]
+    );
+
+    await recordTransfer(tx, booking, updated!, previousValue, nowIso);
+    if (!awaitingPayment) {
+      await recordTransferSettlement(tx, updated!, transfer!, null, nowIso);
+      requestedRefunds = await requestRefund(tx, updated!, -amountDue, null, nowIso);
+    }
+
+    releasedSeatsTripId = sourceTrip.id;
+
+    logger.info('Booking transferred to another trip', {
+      bookingId,
+      fromTripId: sourceTrip.id,
+      toTripId: targetTrip.id,
+      numSeats: booking.num_seats,
+      fareDifference,
+      changeFee,
+      amountDue,
+      currency: booking.currency,
+      status: transfer!.status,
+    });
+
+    return { booking: updated!, transfer: transfer! };
+  });
+
+  const refunds = await submitRequestedRefunds(requestedRefunds);
+  if (releasedSeatsTripId) {
+    await offerReleasedSeats(releasedSeatsTripId);
+  }
+
+  return { ...result, refunds };
+}
+
+/**
+ * Settles the trip change a confirmed booking is waiting on with a successful payment for exactly
+ * its amount due: price_at_booking goes up by the fare difference and the payment is posted to the
+ * ledger. Called by the payment webhook, which holds the booking lock. Returns whether the payment
+ * belongs to a trip change (including one it already settled), so the webhook doesn't send it back.
+ */
+export async function applyTransferPayment(
+  tx: TransactionDatabase,
+  booking: BookingRow,
+  payment: PaymentRow,
+  nowIso: string
+): Promise<boolean> {
+  const settled = await tx.get<{ id: string }>('SELECT id FROM booking_transfers WHERE payment_id = ?', [payment.id]);
+  if (settled) return true;
+  if (booking.state !== STATES.CONFIRMED || payment.status !== 'SUCCEEDED') return false;
+
+  const transfer = await tx.get<BookingTransferRow>(
+    'SELECT * FROM booking_transfers WHERE booking_id = ? AND status = ?',
+    [booking.id, 'AWAITING_PAYMENT']
+  );
+  if (!transfer || payment.currency !== transfer.currency || toCents(payment.amount) !== toCents(transfer.amount_due)) {
+    return false;
+  }
+
+  const updated = await tx.get<BookingRow>(
+    'UPDATE bookings SET price_at_booking = price_at_booking + ?, updated_at = ? WHERE id = ? RETURNING *',
+    [transfer.fare_difference, nowIso, booking.id]
+  );
+  const paid = await tx.get<BookingTransferRow>(
+    'UPDATE booking_transfers SET status = ?, payment_id = ?, settled_at = ? WHERE id = ? RETURNING *',
+    ['SETTLED', payment.id, nowIso, transfer.id]
+  );
+  await recordTransferSettlement(tx, updated!, paid!, payment, nowIso);
+
+  logger.info('Trip change paid', {
+    bookingId: booking.id,
+    transferId: transfer.id,
+    paymentId: payment.id,
+    amount: payment.amount,
+    currency: payment.currency,
+    priceAtBooking: updated!.price_at_booking,
+  });
+  return true;
+}
+
+export async function getBookingTransfers(bookingId: string): Promise<BookingTransferRow[]> {
+  return db.all<BookingTransferRow>(
+    'SELECT * FROM booking_transfers WHERE booking_id = ? ORDER BY created_at ASC',
+    [bookingId]
+  );
+}
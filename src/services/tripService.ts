@@ -1,19 +1,41 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../db/database';
-import { HttpError, TripRow, TripStatus } from '../types';
+import {
+  HttpError, STATES, EVENTS, CURRENCIES, AuthContext, Currency, BookingRow, RefundRow, RefundTier, TripRow, TripStatus, TripCancellationSummary, TripSearchFilters, TripSearchResult,
+} from '../types';
 import { Trip } from '../models/Trip';
+import { logger } from '../utils/logger';
+import { offerReleasedSeats } from './waitlistService';
+import { MAX_HOLD_TTL_MINUTES } from './bookingService';
+import { submitRequestedRefunds } from './refundService';
+import { validateRefundTiers } from '../utils/refundPolicy';
+import { transitionBooking, actorName, SYSTEM_ACTOR } from './bookingEventService';
 
-export async function createTrip(input: {
+interface TripInput {
   title: string;
   destination: string;
   start_date: string;
   end_date: string;
   price: number;
   max_capacity: number;
+  refundable_until_days_before?: number;
+  cancellation_fee_percent?: number;
+  refund_tiers?: RefundTier[] | null;
+  change_fee_percent?: number;
+  hold_ttl_minutes?: number | null;
+  currency?: Currency;
+  status?: TripStatus;
+}
+
+interface RefundPolicy {
   refundable_until_days_before: number;
   cancellation_fee_percent: number;
-  status?: TripStatus;
-}): Promise<Trip> {
+  refund_tiers: RefundTier[] | null;
+}
+
+export type TripUpdateInput = Partial<Omit<TripInput, 'status'>>;
+
+function validateTripInput(input: TripInput): void {
   const startDate = new Date(input.start_date);
   const endDate = new Date(input.end_date);
 
@@ -32,12 +54,98 @@ export async function createTrip(input: {
   if (input.max_capacity <= 0) {
     throw new HttpError(400, 'max_capacity must be greater than 0');
   }
-  if (input.refundable_until_days_before < 0) {
+  if (input.refundable_until_days_before !== undefined && input.refundable_until_days_before < 0) {
     throw new HttpError(400, 'refundable_until_days_before must be non-negative');
   }
-  if (input.cancellation_fee_percent < 0 || input.cancellation_fee_percent > 100) {
+  if (input.cancellation_fee_percent !== undefined && (input.cancellation_fee_percent < 0 || input.cancellation_fee_percent > 100)) {
     throw new HttpError(400, 'cancellation_fee_percent must be between 0 and 100');
   }
+  if (input.change_fee_percent !== undefined && (input.change_fee_percent < 0 || input.change_fee_percent > 100)) {
+    throw new HttpError(400, 'change_fee_percent must be between 0 and 100');
+  }
+  if (input.hold_ttl_minutes != null && (input.hold_ttl_minutes < 1 || input.hold_ttl_minutes > MAX_HOLD_TTL_MINUTES)) {
+    throw new HttpError(400, `hold_ttl_minutes must be between 1 and ${MAX_HOLD_TTL_MINUTES}`);
+  }
+  if (input.currency !== undefined && !CURRENCIES.includes(input.currency)) {
+    throw new HttpError(400, `currency must be one of: ${CURRENCIES.join(', ')}`);
+  }
+}
+
+/**
+ * A trip has either a tiered refund schedule or the single-step cutoff and fee. With a schedule the
+ * single-step columns are derived from it (cutoff of the last tier, fee withheld by the first) so
+ * readers of those columns keep seeing a sensible policy.
+ */
+function resolveRefundPolicy(input: TripInput): RefundPolicy {
+  if (input.refund_tiers) {
+    if (input.refundable_until_days_before !== undefined || input.cancellation_fee_percent !== undefined) {
+      throw new HttpError(400, 'refund_tiers replaces refundable_until_days_before and cancellation_fee_percent; pass one or the other');
+    }
+    const tiers = validateRefundTiers(input.refund_tiers);
+    return {
+      refundable_until_days_before: tiers[tiers.length - 1].days_before,
+      cancellation_fee_percent: 100 - tiers[0].refund_percent,
+      refund_tiers: tiers,
+    };
+  }
+
+  if (input.refundable_until_days_before === undefined || input.cancellation_fee_percent === undefined) {
+    throw new HttpError(400, 'refundable_until_days_before and cancellation_fee_percent are required without refund_tiers');
+  }
+  return {
+    refundable_until_days_before: input.refundable_until_days_before,
+    cancellation_fee_percent: input.cancellation_fee_percent,
+    refund_tiers: null,
+  };
+}
+
+const SORT_COLUMNS: Record<NonNullable<TripSearchFilters['sort']>, string> = {
+  price: 'price',
+  start_date: 'start_date',
+  available_seats: 'available_seats',
+};
+
+interface TripCursor {
+  sort: string;
+  order: string;
+  value: string | number;
+  id: string;
+}
+
+function encodeCursor(cursor: TripCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(raw: string, sort: string, order: string): TripCursor {
+  let cursor: TripCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+  if (!cursor || typeof cursor.id !== 'string' || cursor.value === undefined) {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+  if (cursor.sort !== sort || cursor.order !== order) {
+    throw new HttpError(400, 'Cursor does not match the requested sort order');
+  }
+  return cursor;
+}
+
+function cursorValue(trip: TripRow, sort: string): string | number {
+  const value = trip[sort as keyof TripRow] as unknown;
+  return value instanceof Date ? value.toISOString() : (value as string | number);
+}
+
+function assertTripEditable(trip: TripRow): void {
+  if (trip.status === 'CANCELLED' || trip.status === 'ARCHIVED') {
+    throw new HttpError(409, `Cannot modify a trip in status: ${trip.status}`);
+  }
+}
+
+export async function createTrip(input: TripInput): Promise<Trip> {
+  validateTripInput(input);
+  const refundPolicy = resolveRefundPolicy(input);
 
   const status: TripStatus = input.status || 'DRAFT';
   if (status !== 'DRAFT' && status !== 'PUBLISHED') {
@@ -50,13 +158,16 @@ export async function createTrip(input: {
   return db.transaction(async () => {
     await db.run(
       `INSERT INTO trips
-       (id, title, destination, start_date, end_date, price, max_capacity, available_seats, status,
-        refundable_until_days_before, cancellation_fee_percent, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       (id, title, destination, start_date, end_date, price, currency, max_capacity, available_seats, status,
+        refundable_until_days_before, cancellation_fee_percent, refund_tiers, change_fee_percent, hold_ttl_minutes,
+        created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         tripId, input.title, input.destination, input.start_date, input.end_date,
-        input.price, input.max_capacity, input.max_capacity, status,
-        input.refundable_until_days_before, input.cancellation_fee_percent, nowIso, nowIso
+        input.price, input.currency || 'INR', input.max_capacity, input.max_capacity, status,
+        refundPolicy.refundable_until_days_before, refundPolicy.cancellation_fee_percent,
+        refundPolicy.refund_tiers && JSON.stringify(refundPolicy.refund_tiers), input.change_fee_percent || 0,
+        input.hold_ttl_minutes ?? null, nowIso, nowIso
       ]
     );
 
@@ -68,3 +179,300 @@ export async function createTrip(input: {
   });
 }
 
+export async function searchTrips(filters: TripSearchFilters): Promise<TripSearchResult> {
+  const sort = filters.sort || 'start_date';
+  const order = filters.order || 'asc';
+  const limit = filters.limit || 20;
+  const column = SORT_COLUMNS[sort];
+
+  let query = 'SELECT * FROM trips WHERE 1=1';
+  const params: unknown[] = [];
+
+  query += ' AND status = ?';
+  params.push(filters.status || 'PUBLISHED');
+
+  if (filters.destination) {
+    query += ' AND destination LIKE ?';
+    params.push(`%${filters.destination}%`);
+  }
+  if (filters.q) {
+    query += ' AND (title ILIKE ? OR destination ILIKE ?)';
+    params.push(`%${filters.q}%`, `%${filters.q}%`);
+  }
+  if (filters.min_price !== undefined) {
+    query += ' AND price >= ?';
+    params.push(filters.min_price);
+  }
+  if (filters.max_price !== undefined) {
+    query += ' AND price <= ?';
+    params.push(filters.max_price);
+  }
+  if (filters.start_from) {
+    query += ' AND start_date >= ?';
+    params.push(filters.start_from);
+  }
+  if (filters.start_to) {
+    query += ' AND start_date <= ?';
+    params.push(filters.start_to);
+  }
+  if (filters.min_seats !== undefined) {
+    query += ' AND available_seats >= ?';
+    params.push(filters.min_seats);
+  }
+
+  if (filters.cursor) {
+    // Keyset pagination on (sort column, id) keeps pages stable while rows are inserted
+    const cursor = decodeCursor(filters.cursor, sort, order);
+    const comparator = order === 'asc' ? '>' : '<';
+    query += ` AND (${column}, id) ${comparator} (?, ?)`;
+    params.push(cursor.value, cursor.id);
+  }
+
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
+  query += ` ORDER BY ${column} ${direction}, id ${direction} LIMIT ?`;
+  params.push(limit + 1);
+
+  const rows = await db.all<TripRow>(query, params);
+  const trips = rows.slice(0, limit);
+  const last = trips[trips.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? encodeCursor({ sort, order, value: cursorValue(last, column), id: last.id })
+    : null;
+
+  return { trips, next_cursor: nextCursor };
+}
+
+export async function updateTrip(tripId: string, changes: TripUpdateInput): Promise<Trip> {
+  const trip = await db.transaction(async (tx) => {
+    const existing = await tx.get<TripRow>('SELECT * FROM trips WHERE id = ? FOR UPDATE', [tripId]);
+    if (!existing) {
+      throw new HttpError(404, 'Trip not found');
+    }
+    assertTripEditable(existing);
+
+    // Patching the single-step fields replaces a tiered schedule, and vice versa
+    const refundTiers = changes.refund_tiers !== undefined
+      ? changes.refund_tiers
+      : changes.refundable_until_days_before !== undefined || changes.cancellation_fee_percent !== undefined
+        ? null
+        : existing.refund_tiers;
+
+    const merged: TripInput = {
+      title: changes.title ?? existing.title,
+      destination: changes.destination ?? existing.destination,
+      start_date: changes.start_date ?? new Date(existing.start_date).toISOString(),
+      end_date: changes.end_date ?? new Date(existing.end_date).toISOString(),
+      price: Number(changes.price ?? existing.price),
+      max_capacity: changes.max_capacity ?? existing.max_capacity,
+      refundable_until_days_before: refundTiers
+        ? changes.refundable_until_days_before
+        : changes.refundable_until_days_before ?? existing.refundable_until_days_before,
+      cancellation_fee_percent: refundTiers
+        ? changes.cancellation_fee_percent
+        : changes.cancellation_fee_percent ?? existing.cancellation_fee_percent,
+      refund_tiers: refundTiers,
+      change_fee_percent: changes.change_fee_percent ?? existing.change_fee_percent,
+      // null clears the override and falls back to the global default
+      hold_ttl_minutes: changes.hold_ttl_minutes !== undefined ? changes.hold_ttl_minutes : existing.hold_ttl_minutes,
+      currency: changes.currency ?? existing.currency,
+    };
+    validateTripInput(merged);
+    const refundPolicy = resolveRefundPolicy(merged);
+
+    const nowIso = new Date().toISOString();
+    let availableSeats = existing.available_seats;
+
+    if (merged.currency !== existing.currency) {
+      const bookingCount = await tx.get<{ total: number }>(
+        'SELECT COUNT(*)::int as total FROM bookings WHERE trip_id = ?',
+        [tripId]
+      );
+      if ((bookingCount?.total || 0) > 0) {
+        throw new HttpError(409, 'Cannot change the currency of a trip that already has bookings');
+      }
+    }
+
+    if (merged.max_capacity !== existing.max_capacity) {
+      // Lapsed holds are expired first so their seats count as free again
+      const lapsedHolds = await tx.all<BookingRow>(
+        'SELECT * FROM bookings WHERE trip_id = ? AND state = ? AND expires_at <= ? FOR UPDATE',
+        [tripId, STATES.PENDING_PAYMENT, nowIso]
+      );
+      let releasedSeats = 0;
+      for (const hold of lapsedHolds) {
+        const expired = await transitionBooking(tx, hold, EVENTS.AUTO_EXPIRE, { actor: SYSTEM_ACTOR, source: 'expiry', nowIso });
+        releasedSeats += expired.seatsReleased;
+      }
+
+      // Only seats on sale can be taken away. The rest are held by bookings or deliberately
+      // withheld (cancellations that didn't release their seats), and stay that way.
+      availableSeats = existing.available_seats + releasedSeats + (merged.max_capacity - existing.max_capacity);
+      if (availableSeats < 0) {
+        const unavailableSeats = existing.max_capacity - existing.available_seats - releasedSeats;
+        throw new HttpError(
+          409,
+          `Cannot reduce max_capacity to ${merged.max_capacity}. ${unavailableSeats} seats are already held by bookings or withheld`
+        );
+      }
+    }
+
+    const updated = await tx.get<TripRow>(
+      `UPDATE trips
+       SET title = ?, destination = ?, start_date = ?, end_date = ?, price = ?, currency = ?, max_capacity = ?,
+           available_seats = ?, refundable_until_days_before = ?, cancellation_fee_percent = ?, refund_tiers = ?,
+           change_fee_percent = ?, hold_ttl_minutes = ?, updated_at = ?
+       WHERE id = ?
+       RETURNING *`,
+      [
+        merged.title, merged.destination, merged.start_date, merged.end_date, merged.price, merged.currency,
+        merged.max_capacity, availableSeats, refundPolicy.refundable_until_days_before, refundPolicy.cancellation_fee_percent,
+        refundPolicy.refund_tiers && JSON.stringify(refundPolicy.refund_tiers), merged.change_fee_percent, merged.hold_ttl_minutes, nowIso, tripId
+      ]
+    );
+
+    logger.info('Trip updated', {
+      tripId,
+      fields: Object.keys(changes),
+      maxCapacity: merged.max_capacity,
+      availableSeats,
+    });
+
+    return Trip.fromRow(updated)!;
+  });
+
+  if (trip.status === 'PUBLISHED') {
+    await offerReleasedSeats(tripId);
+  }
+
+  return trip;
+}
+
+export async function setTripStatus(tripId: string, status: TripStatus): Promise<Trip> {
+  return db.transaction(async (tx) => {
+    const existing = await tx.get<TripRow>('SELECT * FROM trips WHERE id = ? FOR UPDATE', [tripId]);
+    if (!existing) {
+      throw new HttpError(404, 'Trip not found');
+    }
+
+    if (existing.status === status) {
+      return Trip.fromRow(existing)!;
+    }
+
+    // Cancelled trips may only be archived; archived trips are final
+    if (existing.status === 'ARCHIVED' || (existing.status === 'CANCELLED' && status !== 'ARCHIVED')) {
+      throw new HttpError(409, `Cannot move a trip from ${existing.status} to ${status}`);
+    }
+
+    const nowIso = new Date().toISOString();
+    const tripEnded = new Date(existing.end_date) < new Date(nowIso);
+    const requiresNoActiveBookings =
+      status === 'DRAFT' || (status === 'ARCHIVED' && existing.status !== 'CANCELLED' && !tripEnded);
+
+    if (requiresNoActiveBookings) {
+      const activeResult = await tx.get<{ active_bookings: number }>(
+        `SELECT COUNT(*)::int as active_bookings
+         FROM bookings
+         WHERE trip_id = ? AND (state = ? OR (state = ? AND expires_at > ?))`,
+        [tripId, STATES.CONFIRMED, STATES.PENDING_PAYMENT, nowIso]
+      );
+      if ((activeResult?.active_bookings || 0) > 0) {
+        throw new HttpError(409, `Cannot move a trip with active bookings to ${status}`);
+      }
+    }
+
+    const updated = await tx.get<TripRow>(
+      'UPDATE trips SET status = ?, updated_at = ? WHERE id = ? RETURNING *',
+      [status, nowIso, tripId]
+    );
+
+    logger.info('Trip status changed', { tripId, from: existing.status, to: status });
+
+    return Trip.fromRow(updated)!;
+  });
+}
+
+export async function cancelTrip(tripId: string, actor?: AuthContext): Promise<TripCancellationSummary> {
+  const requestedRefunds: RefundRow[] = [];
+
+  const summary = await db.transaction(async (tx) => {
+    const trip = await tx.get<TripRow>('SELECT * FROM trips WHERE id = ? FOR UPDATE', [tripId]);
+    if (!trip) {
+      throw new HttpError(404, 'Trip not found');
+    }
+    assertTripEditable(trip);
+
+    const nowIso = new Date().toISOString();
+
+    const liveBookings = await tx.all<BookingRow>(
+      'SELECT * FROM bookings WHERE trip_id = ? AND state IN (?, ?) ORDER BY created_at ASC FOR UPDATE',
+      [tripId, STATES.CONFIRMED, STATES.PENDING_PAYMENT]
+    );
+    const confirmed = liveBookings.filter((booking) => booking.state === STATES.CONFIRMED);
+
+    // Confirmed bookings are cancelled and pending holds expire; operator cancellations refund the
+    // full amount regardless of the refund policy. Whatever partial cancellations haven't already
+    // refunded goes back to the customer now.
+    const context = { actor: actorName(actor), source: 'trip_cancellation' as const, nowIso };
+    const cancelled: BookingRow[] = [];
+    const expired: BookingRow[] = [];
+    for (const booking of liveBookings) {
+      if (booking.state === STATES.CONFIRMED) {
+        const outstanding = Number((Number(booking.price_at_booking) - Number(booking.refund_amount || 0)).toFixed(2));
+        const applied = await transitionBooking(tx, booking, EVENTS.TRIP_CANCELLED, context, {
+          changes: { refund_amount: booking.price_at_booking, cancelled_at: nowIso },
+          settlement: { refundAmount: outstanding, feeRetained: 0, feeDescription: 'Trip cancelled' },
+        });
+        cancelled.push(applied.booking);
+        requestedRefunds.push(...applied.refunds);
+      } else {
+        expired.push((await transitionBooking(tx, booking, EVENTS.TRIP_CANCELLED, context)).booking);
+      }
+    }
+
+    await tx.run(
+      `UPDATE trips
+       SET status = ?, available_seats = max_capacity, cancelled_at = ?, updated_at = ?
+       WHERE id = ?`,
+      ['CANCELLED', nowIso, nowIso, tripId]
+    );
+
+    await tx.run(
+      'UPDATE waitlist_entries SET state = ?, updated_at = ? WHERE trip_id = ? AND state = ?',
+      ['CANCELLED', nowIso, tripId, 'WAITING']
+    );
+
+    const seatsReleased = [...cancelled, ...expired].reduce((sum, booking) => sum + booking.num_seats, 0);
+    // Totals cover the refunds actually requested now, in the currency each booking was charged in;
+    // the overall total is converted to trip currency at the booking's rate
+    const fxRates = new Map(confirmed.map((booking) => [booking.id, Number(booking.fx_rate || 1)]));
+    const refundsByCurrency: Partial<Record<Currency, number>> = {};
+    let totalRefunded = 0;
+    for (const refund of requestedRefunds) {
+      const amount = Number(refund.amount);
+      refundsByCurrency[refund.currency] = Number(((refundsByCurrency[refund.currency] || 0) + amount).toFixed(2));
+      totalRefunded += amount / fxRates.get(refund.booking_id)!;
+    }
+    totalRefunded = Number(totalRefunded.toFixed(2));
+
+    logger.info('Trip cancelled by operator', {
+      tripId,
+      cancelledBookings: cancelled.length,
+      expiredBookings: expired.length,
+      seatsReleased,
+      totalRefunded,
+    });
+
+    return {
+      trip_id: tripId,
+      cancelled_bookings: cancelled.map((booking) => booking.id),
+      expired_bookings: expired.map((booking) => booking.id),
+      seats_released: seatsReleased,
+      total_refunded: totalRefunded,
+      refunds_by_currency: refundsByCurrency,
+    };
+  });
+
+  await submitRequestedRefunds(requestedRefunds);
+
+  return summary;
+}
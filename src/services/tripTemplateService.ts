@@ -0,0 +1,327 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/database';
+import {
+  HttpError, TripRow, TripStatus, TripTemplateRow, RecurrenceFrequency, DepartureGenerationResult,
+} from '../types';
+import { Trip } from '../models/Trip';
+import { TripTemplate } from '../models/TripTemplate';
+import { updateTrip } from './tripService';
+import { logger } from '../utils/logger';
+
+const MAX_DEPARTURES_PER_RUN = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A rule may span at most this many days per recurrence_interval step
+const MAX_RECURRENCE_SPAN_DAYS = 366;
+
+interface TripTemplateInput {
+  title: string;
+  destination: string;
+  duration_days: number;
+  price: number;
+  max_capacity: number;
+  refundable_until_days_before: number;
+  cancellation_fee_percent: number;
+  recurrence_frequency: RecurrenceFrequency;
+  recurrence_interval?: number;
+  recurrence_weekdays?: number[];
+  departure_time?: string;
+  starts_on: string;
+  until: string;
+}
+
+export type TripTemplateUpdateInput = Partial<TripTemplateInput>;
+
+function validateTemplateInput(input: TripTemplateInput): void {
+  if (!input.title || !input.destination) {
+    throw new HttpError(400, 'title and destination are required');
+  }
+  if (!Number.isInteger(input.duration_days) || input.duration_days <= 0) {
+    throw new HttpError(400, 'duration_days must be a positive integer');
+  }
+  if (input.price <= 0) {
+    throw new HttpError(400, 'price must be greater than 0');
+  }
+  if (input.max_capacity <= 0) {
+    throw new HttpError(400, 'max_capacity must be greater than 0');
+  }
+  if (input.refundable_until_days_before < 0) {
+    throw new HttpError(400, 'refundable_until_days_before must be non-negative');
+  }
+  if (input.cancellation_fee_percent < 0 || input.cancellation_fee_percent > 100) {
+    throw new HttpError(400, 'cancellation_fee_percent must be between 0 and 100');
+  }
+  if (input.recurrence_frequency !== 'DAILY' && input.recurrence_frequency !== 'WEEKLY') {
+    throw new HttpError(400, 'recurrence_frequency must be either "DAILY" or "WEEKLY"');
+  }
+  if (input.recurrence_interval !== undefined && (!Number.isInteger(input.recurrence_interval) || input.recurrence_interval < 1)) {
+    throw new HttpError(400, 'recurrence_interval must be a positive integer');
+  }
+
+  const weekdays = input.recurrence_weekdays || [];
+  if (weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new HttpError(400, 'recurrence_weekdays must contain integers between 0 (Sunday) and 6 (Saturday)');
+  }
+  if (input.recurrence_frequency === 'WEEKLY' && weekdays.length === 0) {
+    throw new HttpError(400, 'recurrence_weekdays is required for WEEKLY recurrence');
+  }
+
+  if (input.departure_time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.departure_time)) {
+    throw new HttpError(400, 'departure_time must be in HH:MM format');
+  }
+
+  const startsOn = new Date(`${input.starts_on}T00:00:00.000Z`);
+  const until = new Date(`${input.until}T00:00:00.000Z`);
+  if (isNaN(startsOn.getTime()) || isNaN(until.getTime())) {
+    throw new HttpError(400, 'starts_on and until must be valid dates (YYYY-MM-DD)');
+  }
+  if (until < startsOn) {
+    throw new HttpError(400, 'until must not be before starts_on');
+  }
+  const maxSpanDays = MAX_RECURRENCE_SPAN_DAYS * (input.recurrence_interval || 1);
+  if ((until.getTime() - startsOn.getTime()) / DAY_MS > maxSpanDays) {
+    throw new HttpError(400, `until must be within ${maxSpanDays} days of starts_on`);
+  }
+}
+
+/**
+ * Departures after `after`, in order. Stops once more than `limit` are found so a rule stored
+ * before the span limit existed can't walk an unbounded range.
+ */
+function occurrenceDates(template: TripTemplate, after: Date, limit: number): Date[] {
+  const [hours, minutes] = template.departure_time.split(':').map(Number);
+  const startsOn = new Date(`${template.starts_on}T00:00:00.000Z`);
+  const until = new Date(`${template.until}T00:00:00.000Z`);
+  const interval = template.recurrence_interval || 1;
+  const dates: Date[] = [];
+
+  for (let index = 0, day = startsOn; day <= until; index++, day = new Date(day.getTime() + DAY_MS)) {
+    const matches = template.recurrence_frequency === 'DAILY'
+      ? index % interval === 0
+      : template.recurrence_weekdays.includes(day.getUTCDay()) && Math.floor(index / 7) % interval === 0;
+
+    if (matches) {
+      const departure = new Date(day);
+      departure.setUTCHours(hours, minutes, 0, 0);
+      if (departure > after) dates.push(departure);
+      if (dates.length > limit) break;
+    }
+  }
+
+  return dates;
+}
+
+async function loadTemplate(templateId: string): Promise<TripTemplate> {
+  const row = await db.get<TripTemplateRow>('SELECT * FROM trip_templates WHERE id = ?', [templateId]);
+  const template = TripTemplate.fromRow(row);
+  if (!template) {
+    throw new HttpError(404, 'Trip template not found');
+  }
+  return template;
+}
+
+export async function createTemplate(input: TripTemplateInput): Promise<TripTemplate> {
+  validateTemplateInput(input);
+
+  const templateId = uuidv4();
+  const nowIso = new Date().toISOString();
+
+  const row = await db.get<TripTemplateRow>(
+    `INSERT INTO trip_templates
+     (id, title, destination, duration_days, price, max_capacity, refundable_until_days_before,
+      cancellation_fee_percent, recurrence_frequency, recurrence_interval, recurrence_weekdays,
+      departure_time, starts_on, until, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [
+      templateId, input.title, input.destination, input.duration_days, input.price, input.max_capacity,
+      input.refundable_until_days_before, input.cancellation_fee_percent, input.recurrence_frequency,
+      input.recurrence_interval || 1, input.recurrence_weekdays || [], input.departure_time || '09:00',
+      input.starts_on, input.until, nowIso, nowIso
+    ]
+  );
+
+  logger.info('Trip template created', { templateId, frequency: input.recurrence_frequency });
+
+  return TripTemplate.fromRow(row)!;
+}
+
+export async function listTemplates(): Promise<TripTemplate[]> {
+  const rows = await db.all<TripTemplateRow>('SELECT * FROM trip_templates ORDER BY created_at ASC');
+  return rows.map((row) => TripTemplate.fromRow(row)!);
+}
+
+export async function getTemplateWithDepartures(templateId: string): Promise<{ template: TripTemplate; departures: Trip[] }> {
+  const template = await loadTemplate(templateId);
+  const rows = await db.all<TripRow>(
+    'SELECT * FROM trips WHERE template_id = ? ORDER BY start_date ASC',
+    [templateId]
+  );
+  return { template, departures: rows.map((row) => Trip.fromRow(row)!) };
+}
+
+export async function updateTemplate(templateId: string, changes: TripTemplateUpdateInput): Promise<TripTemplate> {
+  const existing = await loadTemplate(templateId);
+
+  const merged: TripTemplateInput = {
+    title: changes.title ?? existing.title,
+    destination: changes.destination ?? existing.destination,
+    duration_days: changes.duration_days ?? existing.duration_days,
+    price: Number(changes.price ?? existing.price),
+    max_capacity: changes.max_capacity ?? existing.max_capacity,
+    refundable_until_days_before: changes.refundable_until_days_before ?? existing.refundable_until_days_before,
+    cancellation_fee_percent: changes.cancellation_fee_percent ?? existing.cancellation_fee_percent,
+    recurrence_frequency: changes.recurrence_frequency ?? existing.recurrence_frequency,
+    recurrence_interval: changes.recurrence_interval ?? existing.recurrence_interval,
+    recurrence_weekdays: changes.recurrence_weekdays ?? existing.recurrence_weekdays,
+    departure_time: changes.departure_time ?? existing.departure_time,
+    starts_on: changes.starts_on ?? existing.starts_on,
+    until: changes.until ?? existing.until,
+  };
+  validateTemplateInput(merged);
+
+  const row = await db.get<TripTemplateRow>(
+    `UPDATE trip_templates
+     SET title = ?, destination = ?, duration_days = ?, price = ?, max_capacity = ?,
+         refundable_until_days_before = ?, cancellation_fee_percent = ?, recurrence_frequency = ?,
+         recurrence_interval = ?, recurrence_weekdays = ?, departure_time = ?, starts_on = ?, until = ?,
+         updated_at = ?
+     WHERE id = ?
+     RETURNING *`,
+    [
+      merged.title, merged.destination, merged.duration_days, merged.price, merged.max_capacity,
+      merged.refundable_until_days_before, merged.cancellation_fee_percent, merged.recurrence_frequency,
+      merged.recurrence_interval, merged.recurrence_weekdays, merged.departure_time, merged.starts_on,
+      merged.until, new Date().toISOString(), templateId
+    ]
+  );
+
+  logger.info('Trip template updated', { templateId, fields: Object.keys(changes) });
+
+  return TripTemplate.fromRow(row)!;
+}
+
+/**
+ * Creates a trip for every future occurrence of the template's recurrence rule that doesn't
+ * exist yet. With `regenerate`, attached departures that haven't started are also brought back
+ * in line with the template; detached departures are never touched.
+ */
+export async function generateDepartures(
+  templateId: string,
+  options: { status?: TripStatus; regenerate?: boolean } = {}
+): Promise<DepartureGenerationResult> {
+  const template = await loadTemplate(templateId);
+  const status: TripStatus = options.status || 'DRAFT';
+  if (status !== 'DRAFT' && status !== 'PUBLISHED') {
+    throw new HttpError(400, 'status must be either "DRAFT" or "PUBLISHED"');
+  }
+
+  const now = new Date();
+  const dates = occurrenceDates(template, now, MAX_DEPARTURES_PER_RUN);
+  if (dates.length > MAX_DEPARTURES_PER_RUN) {
+    throw new HttpError(400, `Recurrence rule produces more than ${MAX_DEPARTURES_PER_RUN} departures. Narrow the date range`);
+  }
+
+  const result: DepartureGenerationResult = {
+    template_id: templateId,
+    created: [],
+    updated: [],
+    skipped_dates: [],
+    failed: [],
+  };
+
+  const existing = await db.transaction(async (tx) => {
+    const existingRows = await tx.all<TripRow>('SELECT * FROM trips WHERE template_id = ?', [templateId]);
+    const existingDates = new Set(existingRows.map((row) => new Date(row.start_date).toISOString()));
+    const nowIso = now.toISOString();
+
+    for (const startDate of dates) {
+      const startIso = startDate.toISOString();
+      if (existingDates.has(startIso)) {
+        result.skipped_dates.push(startIso);
+        continue;
+      }
+
+      const endIso = new Date(startDate.getTime() + template.duration_days * DAY_MS).toISOString();
+      const inserted = await tx.get<{ id: string }>(
+        `INSERT INTO trips
+         (id, title, destination, start_date, end_date, price, max_capacity, available_seats, status,
+          refundable_until_days_before, cancellation_fee_percent, template_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT DO NOTHING
+         RETURNING id`,
+        [
+          uuidv4(), template.title, template.destination, startIso, endIso, template.price,
+          template.max_capacity, template.max_capacity, status, template.refundable_until_days_before,
+          template.cancellation_fee_percent, templateId, nowIso, nowIso
+        ]
+      );
+
+      if (inserted) {
+        result.created.push(inserted.id);
+      } else {
+        result.skipped_dates.push(startIso);
+      }
+    }
+
+    return existingRows;
+  });
+
+  if (options.regenerate) {
+    const syncable = existing.filter((row) =>
+      !row.template_detached &&
+      (row.status === 'DRAFT' || row.status === 'PUBLISHED') &&
+      new Date(row.start_date) > now
+    );
+
+    for (const row of syncable) {
+      const startDate = new Date(row.start_date);
+      try {
+        await updateTrip(row.id, {
+          title: template.title,
+          destination: template.destination,
+          end_date: new Date(startDate.getTime() + template.duration_days * DAY_MS).toISOString(),
+          price: Number(template.price),
+          max_capacity: template.max_capacity,
+          refundable_until_days_before: template.refundable_until_days_before,
+          cancellation_fee_percent: template.cancellation_fee_percent,
+        });
+        result.updated.push(row.id);
+      } catch (err) {
+        if (!(err instanceof HttpError)) {
+          throw err;
+        }
+        result.failed.push({ trip_id: row.id, error: err.message });
+      }
+    }
+  }
+
+  logger.info('Departures generated from template', {
+    templateId,
+    created: result.created.length,
+    updated: result.updated.length,
+    skipped: result.skipped_dates.length,
+    failed: result.failed.length,
+  });
+
+  return result;
+}
+
+export async function detachDeparture(tripId: string): Promise<Trip> {
+  const row = await db.get<TripRow>('SELECT * FROM trips WHERE id = ?', [tripId]);
+  if (!row) {
+    throw new HttpError(404, 'Trip not found');
+  }
+  if (!row.template_id) {
+    throw new HttpError(409, 'Trip was not generated from a template');
+  }
+
+  // Keep template_id so the departure date still counts as taken when regenerating
+  const updated = await db.get<TripRow>(
+    'UPDATE trips SET template_detached = TRUE, updated_at = ? WHERE id = ? RETURNING *',
+    [new Date().toISOString(), tripId]
+  );
+
+  logger.info('Departure detached from template', { tripId, templateId: row.template_id });
+
+  return Trip.fromRow(updated)!;
+}
@@ -0,0 +1,76 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, TransactionDatabase } from '../db/database';
+import { HttpError, UserRow } from '../types';
+import { logger } from '../utils/logger';
+
+interface UserInput {
+  name: string;
+  email: string;
+  phone?: string | null;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function createUser(input: UserInput): Promise<UserRow> {
+  const email = normalizeEmail(input.email);
+  const existing = await db.get<UserRow>('SELECT id FROM users WHERE email = ?', [email]);
+  if (existing) {
+    throw new HttpError(409, 'A user with this email already exists');
+  }
+
+  const nowIso = new Date().toISOString();
+  const user = await db.get<UserRow>(
+    `INSERT INTO users (id, name, email, phone, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     RETURNING *`,
+    [uuidv4(), input.name.trim(), email, input.phone || null, nowIso, nowIso]
+  );
+
+  logger.info('User created', { userId: user!.id });
+
+  return user!;
+}
+
+export async function getUser(userId: string): Promise<UserRow | null> {
+  const user = await db.get<UserRow>('SELECT * FROM users WHERE id = ?', [userId]);
+  return user || null;
+}
+
+export async function updateUser(userId: string, changes: Partial<UserInput>): Promise<UserRow> {
+  const existing = await getUser(userId);
+  if (!existing) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  const email = changes.email !== undefined ? normalizeEmail(changes.email) : existing.email;
+  if (email && email !== existing.email) {
+    const taken = await db.get<UserRow>('SELECT id FROM users WHERE email = ? AND id <> ?', [email, userId]);
+    if (taken) {
+      throw new HttpError(409, 'A user with this email already exists');
+    }
+  }
+
+  const updated = await db.get<UserRow>(
+    'UPDATE users SET name = ?, email = ?, phone = ?, updated_at = ? WHERE id = ? RETURNING *',
+    [
+      changes.name?.trim() ?? existing.name,
+      email,
+      changes.phone !== undefined ? changes.phone : existing.phone,
+      new Date().toISOString(),
+      userId,
+    ]
+  );
+
+  logger.info('User updated', { userId, fields: Object.keys(changes) });
+
+  return updated!;
+}
+
+export async function assertUserExists(userId: string, conn: Pick<TransactionDatabase, 'get'> = db): Promise<void> {
+  const user = await conn.get<{ id: string }>('SELECT id FROM users WHERE id = ?', [userId]);
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+}
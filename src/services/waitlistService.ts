@@ -0,0 +1,137 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/database';
+import { HttpError, TripRow, WaitlistEntryRow } from '../types';
+import { reserveBooking } from './bookingService';
+import { assertUserExists } from './userService';
+import { logger } from '../utils/logger';
+
+export async function joinWaitlist(tripId: string, userId: string, numSeats: number): Promise<WaitlistEntryRow> {
+  if (!numSeats || numSeats <= 0) {
+    throw new HttpError(400, 'num_seats must be greater than 0');
+  }
+  await assertUserExists(userId);
+
+  return db.transaction(async (tx) => {
+    const trip = await tx.get<TripRow>(
+      'SELECT * FROM trips WHERE id = ? AND status = ? FOR UPDATE',
+      [tripId, 'PUBLISHED']
+    );
+    if (!trip) {
+      throw new HttpError(404, 'Trip not found or not published');
+    }
+    if (numSeats > trip.max_capacity) {
+      throw new HttpError(400, `num_seats exceeds trip capacity of ${trip.max_capacity}`);
+    }
+    if (trip.available_seats >= numSeats) {
+      throw new HttpError(409, 'Seats are available for this trip. Book directly instead of joining the waitlist');
+    }
+
+    const existing = await tx.get<WaitlistEntryRow>(
+      'SELECT * FROM waitlist_entries WHERE trip_id = ? AND user_id = ? AND state = ?',
+      [tripId, userId, 'WAITING']
+    );
+    if (existing) {
+      throw new HttpError(409, 'User is already on the waitlist for this trip');
+    }
+
+    const nowIso = new Date().toISOString();
+    const entry = await tx.get<WaitlistEntryRow>(
+      `INSERT INTO waitlist_entries (id, trip_id, user_id, num_seats, state, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [uuidv4(), tripId, userId, numSeats, 'WAITING', nowIso, nowIso]
+    );
+
+    logger.info('User joined waitlist', { tripId, userId, numSeats, entryId: entry!.id });
+
+    return entry!;
+  });
+}
+
+export async function getWaitlist(tripId: string): Promise<WaitlistEntryRow[]> {
+  return db.all<WaitlistEntryRow>(
+    'SELECT * FROM waitlist_entries WHERE trip_id = ? ORDER BY created_at ASC',
+    [tripId]
+  );
+}
+
+export async function getWaitlistEntry(entryId: string): Promise<WaitlistEntryRow | null> {
+  const entry = await db.get<WaitlistEntryRow>('SELECT * FROM waitlist_entries WHERE id = ?', [entryId]);
+  return entry || null;
+}
+
+export async function leaveWaitlist(entryId: string): Promise<WaitlistEntryRow> {
+  const entry = await db.get<WaitlistEntryRow>(
+    `UPDATE waitlist_entries SET state = ?, updated_at = ?
+     WHERE id = ? AND state = ?
+     RETURNING *`,
+    ['CANCELLED', new Date().toISOString(), entryId, 'WAITING']
+  );
+  if (!entry) {
+    const current = await getWaitlistEntry(entryId);
+    if (!current) {
+      throw new HttpError(404, 'Waitlist entry not found');
+    }
+    throw new HttpError(409, `Cannot leave waitlist in state: ${current.state}`);
+  }
+
+  logger.info('User left waitlist', { entryId, tripId: entry.trip_id });
+
+  return entry;
+}
+
+/**
+ * Offers freed seats to waiting users in FIFO order. Each entry whose seat count fits gets a
+ * PENDING_PAYMENT hold created on its behalf; entries that don't fit keep their place in line.
+ * Errors are logged rather than thrown so the flow that released the seats is never affected.
+ */
+export async function offerReleasedSeats(tripId: string): Promise<void> {
+  try {
+    await db.transaction(async (tx) => {
+      const trip = await tx.get<TripRow>(
+        'SELECT * FROM trips WHERE id = ? AND status = ? FOR UPDATE',
+        [tripId, 'PUBLISHED']
+      );
+      if (!trip || trip.available_seats <= 0) return;
+
+      const waiting = await tx.all<WaitlistEntryRow>(
+        `SELECT * FROM waitlist_entries
+         WHERE trip_id = ? AND state = ?
+         ORDER BY created_at ASC
+         FOR UPDATE`,
+        [tripId, 'WAITING']
+      );
+
+      let availableSeats = trip.available_seats;
+      for (const entry of waiting) {
+        if (entry.num_seats > availableSeats) continue;
+
+        const booking = await reserveBooking(tx, tripId, entry.user_id, entry.num_seats, { source: 'waitlist' });
+        const nowIso = new Date().toISOString();
+        await tx.run(
+          `UPDATE waitlist_entries
+           SET state = ?, booking_id = ?, offered_at = ?, updated_at = ?
+           WHERE id = ?`,
+          ['OFFERED', booking.id, nowIso, nowIso, entry.id]
+        );
+        availableSeats -= entry.num_seats;
+
+        logger.info('Waitlisted user offered seats', {
+          entryId: entry.id,
+          tripId,
+          userId: entry.user_id,
+          bookingId: booking.id,
+          numSeats: entry.num_seats,
+          expiresAt: booking.expires_at,
+        });
+
+        if (availableSeats <= 0) break;
+      }
+    });
+  } catch (err) {
+    logger.error('Failed to offer released seats to waitlist', {
+      tripId,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  }
+}
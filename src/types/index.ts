@@ -13,11 +13,51 @@ export const EVENTS = {
   AUTO_EXPIRE: 'AUTO_EXPIRE',
   CANCEL_BEFORE_CUTOFF: 'CANCEL_BEFORE_CUTOFF',
   CANCEL_AFTER_CUTOFF: 'CANCEL_AFTER_CUTOFF',
+  ADMIN_CANCEL: 'ADMIN_CANCEL',
+  TRIP_CANCELLED: 'TRIP_CANCELLED',
+  // Recorded in a booking's history when it is created; never a transition
+  CREATE: 'CREATE',
 } as const;
 
 export type BookingEvent = typeof EVENTS[keyof typeof EVENTS];
 
-export type TripStatus = 'DRAFT' | 'PUBLISHED';
+export const BOOKING_EVENT_SOURCES = [
+  'booking_api', 'payment_webhook', 'expiry', 'admin_api', 'trip_cancellation', 'waitlist',
+] as const;
+export type BookingEventSource = typeof BOOKING_EVENT_SOURCES[number];
+
+export interface BookingEventRow {
+  id: string;
+  booking_id: string;
+  from_state: BookingState | null;
+  to_state: BookingState;
+  event: BookingEvent;
+  actor: string;
+  source: BookingEventSource;
+  created_at: string;
+}
+
+export const CURRENCIES = ['INR', 'USD', 'EUR'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+export const ROLES = ['customer', 'operator', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface AuthContext {
+  subject: string;
+  role: Role;
+  method: 'api_key' | 'token';
+}
+
+export interface RefundTier {
+  days_before: number;
+  refund_percent: number;
+}
+
+export type TripStatus = 'DRAFT' | 'PUBLISHED' | 'CANCELLED' | 'ARCHIVED';
+
+export const TRIP_STATUSES: TripStatus[] = ['DRAFT', 'PUBLISHED', 'CANCELLED', 'ARCHIVED'];
 
 export interface TripRow {
   id: string;
@@ -31,6 +71,43 @@ export interface TripRow {
   status: TripStatus;
   refundable_until_days_before: number;
   cancellation_fee_percent: number;
+  refund_tiers: RefundTier[] | null;
+  change_fee_percent: number;
+  hold_ttl_minutes: number | null;
+  currency: Currency;
+  cancelled_at: string | null;
+  template_id: string | null;
+  template_detached: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY';
+
+export interface TripTemplateRow {
+  id: string;
+  title: string;
+  destination: string;
+  duration_days: number;
+  price: number;
+  max_capacity: number;
+  refundable_until_days_before: number;
+  cancellation_fee_percent: number;
+  recurrence_frequency: RecurrenceFrequency;
+  recurrence_interval: number;
+  recurrence_weekdays: number[];
+  departure_time: string;
+  starts_on: string;
+  until: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserRow {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -48,6 +125,252 @@ export interface BookingRow {
   cancelled_at: string | null;
   refund_amount: number | null;
   idempotency_key: string | null;
+  pricing_breakdown: PricingBreakdown | null;
+  currency: Currency;
+  fx_rate: number;
+  hold_extended_at: string | null;
+  cancellation_reason_code: CancellationReasonCode | null;
+  cancellation_note: string | null;
+  cancelled_by: string | null;
+  cancellation_override: CancellationOverride | null;
+  updated_at: string;
+}
+
+export const CANCELLATION_REASON_CODES = [
+  'GOODWILL', 'MEDICAL', 'OPERATOR_ERROR', 'DUPLICATE_BOOKING', 'FRAUD', 'OTHER'
+] as const;
+export type CancellationReasonCode = typeof CANCELLATION_REASON_CODES[number];
+
+export interface CancellationOverride {
+  refund_amount: number;
+  refund_percent: number | null;
+  policy_refund_amount: number;
+  release_seats: boolean;
+  policy_releases_seats: boolean;
+}
+
+export interface PassengerInput {
+  full_name: string;
+  date_of_birth: string;
+  nationality: string;
+  document_number: string;
+  emergency_contact: {
+    name: string;
+    phone: string;
+  };
+}
+
+export interface PassengerRow {
+  id: string;
+  booking_id: string;
+  full_name: string;
+  date_of_birth: string;
+  nationality: string;
+  document_number: string;
+  emergency_contact_name: string;
+  emergency_contact_phone: string;
+  created_at: string;
+}
+
+export type PaymentStatus = 'SUCCEEDED' | 'FAILED';
+
+export interface PaymentRow {
+  id: string;
+  booking_id: string;
+  provider_reference: string;
+  attempt: number;
+  amount: number;
+  currency: Currency;
+  status: PaymentStatus;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const REFUND_STATUSES = ['REQUESTED', 'PROCESSING', 'SUCCEEDED', 'FAILED'] as const;
+export type RefundStatus = typeof REFUND_STATUSES[number];
+
+// CANCELLATION refunds give back part of what a booking paid; UNAPPLIED_PAYMENT ones return a
+// payment that never settled its booking
+export type RefundKind = 'CANCELLATION' | 'UNAPPLIED_PAYMENT';
+
+export interface RefundRow {
+  id: string;
+  booking_id: string;
+  payment_id: string;
+  refund_line_id: string | null;
+  kind: RefundKind;
+  amount: number;
+  currency: Currency;
+  status: RefundStatus;
+  provider_reference: string | null;
+  attempts: number;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export const LEDGER_ACCOUNTS = [
+  'CASH', 'SALES', 'DISCOUNTS', 'CANCELLATION_FEES', 'REFUNDS', 'UNAPPLIED_PAYMENTS', 'CHANGE_FEES', 'TRANSFERS'
+] as const;
+export type LedgerAccount = typeof LEDGER_ACCOUNTS[number];
+
+export type LedgerEntryType =
+  'PAYMENT_RECEIVED' | 'DISCOUNT' | 'CANCELLATION_FEE' | 'REFUND_PAID' | 'PAYMENT_UNAPPLIED' | 'TRANSFER' | 'CHANGE_FEE';
+
+export type LedgerDirection = 'DEBIT' | 'CREDIT';
+
+export interface LedgerEntryRow {
+  id: string;
+  entry_type: LedgerEntryType;
+  booking_id: string;
+  trip_id: string;
+  payment_id: string | null;
+  refund_id: string | null;
+  currency: Currency;
+  fx_rate: number;
+  description: string;
+  created_at: string;
+}
+
+export interface LedgerPostingRow {
+  id: string;
+  entry_id: string;
+  account: LedgerAccount;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+export interface RefundLineRow {
+  id: string;
+  booking_id: string;
+  num_seats: number;
+  seat_value: number;
+  refund_amount: number;
+  currency: Currency;
+  seats_released: boolean;
+  created_at: string;
+}
+
+export interface RefundQuote {
+  booking_id: string;
+  state: BookingState;
+  currency: Currency;
+  remaining_value: number;
+  refund_amount: number;
+  fee_retained: number;
+  releases_seats: boolean;
+  tier: RefundTier | null;
+  quoted_at: string;
+  worsens_at: string | null;
+}
+
+// A transfer the customer owes money on waits for that payment; anything else settles at once
+export type BookingTransferStatus = 'AWAITING_PAYMENT' | 'SETTLED';
+
+export interface BookingTransferRow {
+  id: string;
+  booking_id: string;
+  from_trip_id: string;
+  to_trip_id: string;
+  num_seats: number;
+  previous_value: number;
+  new_value: number;
+  fare_difference: number;
+  change_fee: number;
+  amount_due: number;
+  currency: Currency;
+  from_fx_rate: number | null;
+  status: BookingTransferStatus;
+  payment_id: string | null;
+  created_at: string;
+  settled_at: string | null;
+}
+
+export interface ExchangeRateRow {
+  id: string;
+  base_currency: Currency;
+  quote_currency: Currency;
+  rate: number;
+  effective_from: string;
+  created_at: string;
+}
+
+export interface CurrencyConversion {
+  currency: Currency;
+  rate: number;
+  total: number;
+}
+
+export type WaitlistState = 'WAITING' | 'OFFERED' | 'CANCELLED';
+
+export interface WaitlistEntryRow {
+  id: string;
+  trip_id: string;
+  user_id: string;
+  num_seats: number;
+  state: WaitlistState;
+  booking_id: string | null;
+  created_at: string;
+  offered_at: string | null;
+  updated_at: string;
+}
+
+export type PricingRuleType = 'EARLY_BIRD' | 'OCCUPANCY' | 'GROUP';
+
+export interface PricingRuleRow {
+  id: string;
+  trip_id: string;
+  rule_type: PricingRuleType;
+  threshold: number;
+  adjustment_percent: number;
+  created_at: string;
+}
+
+export interface PriceAdjustment {
+  source: 'PRICING_RULE';
+  rule_id: string;
+  rule_type: PricingRuleType;
+  threshold: number;
+  adjustment_percent: number;
+  amount: number;
+}
+
+export interface PromoDiscount {
+  promo_code_id: string;
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  amount: number;
+}
+
+export interface PricingBreakdown {
+  currency: Currency;
+  unit_price: number;
+  num_seats: number;
+  base_price: number;
+  adjustments: PriceAdjustment[];
+  subtotal: number;
+  promo: PromoDiscount | null;
+  total: number;
+  conversion: CurrencyConversion | null;
+}
+
+export type PromoDiscountType = 'PERCENT' | 'FIXED';
+
+export interface PromoCodeRow {
+  id: string;
+  code: string;
+  discount_type: PromoDiscountType;
+  discount_value: number;
+  trip_id: string | null;
+  valid_from: string;
+  valid_until: string;
+  max_redemptions: number | null;
+  max_redemptions_per_user: number | null;
+  active: boolean;
+  created_at: string;
   updated_at: string;
 }
 
@@ -68,12 +391,69 @@ export interface TripMetricsResponse {
     expired: number;
   };
   financial: {
+    currency: Currency;
     gross_revenue: number;
     refunds_issued: number;
     net_revenue: number;
   };
 }
 
+export interface DepartureGenerationResult {
+  template_id: string;
+  created: string[];
+  updated: string[];
+  skipped_dates: string[];
+  failed: { trip_id: string; error: string }[];
+}
+
+export interface TripSearchFilters {
+  status?: TripStatus;
+  destination?: string;
+  q?: string;
+  min_price?: number;
+  max_price?: number;
+  start_from?: string;
+  start_to?: string;
+  min_seats?: number;
+  sort?: 'price' | 'start_date' | 'available_seats';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TripSearchResult {
+  trips: TripRow[];
+  next_cursor: string | null;
+}
+
+export interface UserBookingFilters {
+  state?: BookingState;
+  when?: 'upcoming' | 'past';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface BookingWithTrip extends BookingRow {
+  title: string;
+  destination: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface UserBookingsResult {
+  bookings: BookingWithTrip[];
+  next_cursor: string | null;
+}
+
+export interface TripCancellationSummary {
+  trip_id: string;
+  cancelled_bookings: string[];
+  expired_bookings: string[];
+  seats_released: number;
+  total_refunded: number;
+  refunds_by_currency: Partial<Record<Currency, number>>;
+}
+
 export interface AtRiskTrip {
   trip_id: string;
   title: string;
@@ -86,24 +466,6 @@ export interface AtRiskTripsResponse {
   at_risk_trips: AtRiskTrip[];
 }
 
-export type TransitionMap = {
-  [K in BookingState]?: {
-    [E in BookingEvent]?: BookingState;
-  };
-};
-
-export const TRANSITIONS: TransitionMap = {
-  [STATES.PENDING_PAYMENT]: {
-    [EVENTS.PAYMENT_SUCCESS]: STATES.CONFIRMED,
-    [EVENTS.PAYMENT_FAILED]: STATES.EXPIRED,
-    [EVENTS.AUTO_EXPIRE]: STATES.EXPIRED,
-  },
-  [STATES.CONFIRMED]: {
-    [EVENTS.CANCEL_BEFORE_CUTOFF]: STATES.CANCELLED,
-    [EVENTS.CANCEL_AFTER_CUTOFF]: STATES.CANCELLED,
-  },
-};
-
 export class HttpError extends Error {
   status: number;
 
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { ROLES, Role, AuthContext, HttpError } from '../types';
+
+const DEV_TOKEN_SECRET = 'gotyolo-dev-token-secret';
+
+/**
+ * Only development and test runs may fall back to built-in secrets. Any other NODE_ENV, including
+ * none at all, has to configure its own; validateEnv refuses to start without them.
+ */
+export function allowsDevSecrets(): boolean {
+  return process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+}
+
+export const AUTH_TOKEN_SECRET = process.env.AUTH_TOKEN_SECRET || (allowsDevSecrets() ? DEV_TOKEN_SECRET : '');
+export const DEFAULT_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+interface ApiKeyEntry {
+  name: string;
+  role: Role;
+  digest: Buffer;
+}
+
+interface TokenPayload {
+  sub: string;
+  role: Role;
+  iat: number;
+  exp: number;
+}
+
+function sha256(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+function hmac(value: string): string {
+  if (!AUTH_TOKEN_SECRET) {
+    throw new Error('AUTH_TOKEN_SECRET is not configured');
+  }
+  return crypto.createHmac('sha256', AUTH_TOKEN_SECRET).update(value).digest('base64url');
+}
+
+const ROLE_RANK: Record<Role, number> = { customer: 1, operator: 2, admin: 3 };
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasRole(auth: AuthContext | undefined, role: Role): boolean {
+  return !!auth && ROLE_RANK[auth.role] >= ROLE_RANK[role];
+}
+
+/**
+ * Customers may only act for themselves; operators and admins may act for any user.
+ */
+export function canActAs(auth: AuthContext | undefined, userId: string): boolean {
+  return hasRole(auth, 'operator') || (!!auth && auth.subject === userId);
+}
+
+export function assertCanActAs(auth: AuthContext | undefined, userId: string): void {
+  if (!canActAs(auth, userId)) {
+    throw new HttpError(403, 'Not allowed to access this resource');
+  }
+}
+
+/**
+ * Parses API_KEYS, a comma-separated list of `name:role:key` entries. Only digests are kept in
+ * memory and lookups compare in constant time.
+ */
+export function parseApiKeys(raw: string | undefined): ApiKeyEntry[] {
+  if (!raw) return [];
+  return raw.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+    const [name, role, ...rest] = entry.split(':');
+    const key = rest.join(':');
+    if (!name || !isRole(role) || !key) {
+      throw new Error(`Invalid API_KEYS entry "${name || entry}". Expected name:role:key with role one of ${ROLES.join(', ')}`);
+    }
+    return { name, role, digest: sha256(key) };
+  });
+}
+
+let apiKeys: ApiKeyEntry[] | null = null;
+
+export function authenticateApiKey(key: string): AuthContext | null {
+  apiKeys = apiKeys || parseApiKeys(process.env.API_KEYS);
+  const digest = sha256(key);
+  const match = apiKeys.find((entry) => crypto.timingSafeEqual(entry.digest, digest));
+  return match ? { subject: match.name, role: match.role, method: 'api_key' } : null;
+}
+
+/**
+ * Issues an HS256 JWT for a user. Tokens are stateless: they stay valid until `exp`.
+ */
+export function signToken(subject: string, role: Role, ttlSeconds: number = DEFAULT_TOKEN_TTL_SECONDS): { token: string; expires_at: string } {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload: TokenPayload = { sub: subject, role, iat, exp: iat + ttlSeconds };
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return {
+    token: `${header}.${body}.${hmac(`${header}.${body}`)}`,
+    expires_at: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+export function verifyToken(token: string): AuthContext | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [header, body, signature] = parts;
+
+  const expected = Buffer.from(hmac(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf-8'));
+    const payload: TokenPayload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    if (alg !== 'HS256' || typeof payload.sub !== 'string' || !isRole(payload.role)) return null;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) return null;
+    return { subject: payload.sub, role: payload.role, method: 'token' };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,77 @@
+import { HttpError, RefundTier, TripRow } from '../types';
+
+export const MAX_REFUND_TIERS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RefundPolicyFields = Pick<TripRow, 'refundable_until_days_before' | 'cancellation_fee_percent' | 'refund_tiers'>;
+
+/**
+ * The tiers a trip's cancellations are evaluated against. Trips without an explicit schedule have
+ * a single tier built from refundable_until_days_before and cancellation_fee_percent.
+ */
+export function getRefundTiers(trip: RefundPolicyFields): RefundTier[] {
+  if (trip.refund_tiers && trip.refund_tiers.length > 0) {
+    return trip.refund_tiers.map((tier) => ({
+      days_before: Number(tier.days_before),
+      refund_percent: Number(tier.refund_percent),
+    }));
+  }
+  return [{
+    days_before: Number(trip.refundable_until_days_before),
+    refund_percent: 100 - Number(trip.cancellation_fee_percent || 0),
+  }];
+}
+
+/**
+ * Picks the tier that applies `daysLeft` days before departure: the first one whose `days_before`
+ * is strictly less than the days left. Past the last tier the booking is non-refundable (null).
+ */
+export function findRefundTier(tiers: RefundTier[], daysLeft: number): RefundTier | null {
+  return tiers.find((tier) => daysLeft > tier.days_before) || null;
+}
+
+/**
+ * Tiers must be listed from furthest to closest to departure, and a refund can only shrink as the
+ * trip gets closer.
+ */
+export function validateRefundTiers(tiers: unknown): RefundTier[] {
+  if (!Array.isArray(tiers) || tiers.length === 0 || tiers.length > MAX_REFUND_TIERS) {
+    throw new HttpError(400, `refund_tiers must list between 1 and ${MAX_REFUND_TIERS} tiers`);
+  }
+
+  return tiers.map((raw, index) => {
+    const tier = raw as Partial<RefundTier> | null;
+    const daysBefore = Number(tier?.days_before);
+    const refundPercent = Number(tier?.refund_percent);
+    if (!Number.isInteger(daysBefore) || daysBefore < 0) {
+      throw new HttpError(400, `refund_tiers[${index}].days_before must be a non-negative integer`);
+    }
+    if (!Number.isInteger(refundPercent) || refundPercent < 0 || refundPercent > 100) {
+      throw new HttpError(400, `refund_tiers[${index}].refund_percent must be an integer between 0 and 100`);
+    }
+
+    const previous = index > 0 ? (tiers[index - 1] as RefundTier) : null;
+    if (previous && daysBefore >= Number(previous.days_before)) {
+      throw new HttpError(400, 'refund_tiers must be ordered by days_before, furthest from departure first');
+    }
+    if (previous && refundPercent > Number(previous.refund_percent)) {
+      throw new HttpError(400, 'refund_percent cannot increase closer to departure');
+    }
+
+    return { days_before: daysBefore, refund_percent: refundPercent };
+  });
+}
+
+/**
+ * When a cancellation's terms under `tier` next get worse: the end of that tier, or of the run of
+ * following tiers with the same refund_percent. After the last tier seats are no longer released,
+ * so even a 0% tier has an end. Null once nothing is refundable.
+ */
+export function refundWorsensAt(tiers: RefundTier[], tier: RefundTier | null, startDate: Date): Date | null {
+  if (!tier) return null;
+  let index = tiers.findIndex((candidate) => candidate.days_before === tier.days_before);
+  while (index + 1 < tiers.length && tiers[index + 1].refund_percent === tier.refund_percent) {
+    index++;
+  }
+  return new Date(startDate.getTime() - tiers[index].days_before * DAY_MS);
+}
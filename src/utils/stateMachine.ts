@@ -1,12 +1,232 @@
-import { TRANSITIONS, BookingState, BookingEvent } from '../types';
+import { STATES, EVENTS, HttpError, BookingState, BookingEvent, BookingRow, RefundTier } from '../types';
 
-export function transition(currentState: BookingState, event: BookingEvent): BookingState {
-  const stateTransitions = TRANSITIONS[currentState];
-  const nextState = stateTransitions?.[event];
+export const MAX_PAYMENT_ATTEMPTS = parseInt(process.env.MAX_PAYMENT_ATTEMPTS || '3', 10);
+
+export const INITIAL_STATE: BookingState = STATES.PENDING_PAYMENT;
+
+/**
+ * What guards are evaluated against. Callers fill in the facts the transition they fire depends
+ * on; a guard treats a missing fact as not satisfied.
+ */
+export interface GuardInput {
+  booking: Pick<BookingRow, 'state' | 'expires_at' | 'idempotency_key'>;
+  now: Date;
+  // Tier of the trip's refund policy in force at `now`; null once past the last tier
+  refundTier?: RefundTier | null;
+  paymentSettles?: boolean;
+  passengersComplete?: boolean;
+  failedPaymentAttempts?: number;
+}
+
+interface Guard {
+  description: string;
+  // Why the transition is not allowed, or null when it is
+  check: (input: GuardInput) => string | null;
+}
+
+// Side effects run with the state change, in the same transaction. Hooks are bound in bookingEventService.
+export type BookingEffect = 'releaseSeats' | 'refundCancellation' | 'refundUnappliedPayments';
+
+export const EFFECT_DESCRIPTIONS: Record<BookingEffect, string> = {
+  releaseSeats: 'release seats',
+  refundCancellation: 'refund and retain fee',
+  refundUnappliedPayments: 'refund unapplied payments',
+};
+
+export interface TransitionDefinition {
+  from: BookingState;
+  event: BookingEvent;
+  to: BookingState;
+  guards: Guard[];
+  effects: BookingEffect[];
+}
+
+const paymentSettles: Guard = {
+  description: 'payment settles booking',
+  check: ({ paymentSettles }) => (paymentSettles ? null : 'payment amount does not match booking price'),
+};
 
-  if (!nextState) {
-    throw new Error(`Invalid transition from ${currentState} with event ${event}`);
+const passengersComplete: Guard = {
+  description: 'passengers complete',
+  check: ({ passengersComplete }) => (passengersComplete ? null : 'passenger details incomplete'),
+};
+
+const attemptsExhausted: Guard = {
+  description: `${MAX_PAYMENT_ATTEMPTS} failed attempts`,
+  check: ({ failedPaymentAttempts = 0 }) => (failedPaymentAttempts >= MAX_PAYMENT_ATTEMPTS
+    ? null
+    : `payment failed (${failedPaymentAttempts} of ${MAX_PAYMENT_ATTEMPTS} attempts)`),
+};
+
+const holdLapsed: Guard = {
+  description: 'hold lapsed',
+  check: ({ booking, now }) => (booking.expires_at && new Date(booking.expires_at) < now
+    ? null
+    : 'Payment hold has not lapsed'),
+};
+
+const notPaidByWebhook: Guard = {
+  description: 'no payment processed',
+  check: ({ booking }) => (booking.idempotency_key
+    ? 'Cannot cancel pending payment that has been processed by payment webhook'
+    : null),
+};
+
+const beforeCutoff: Guard = {
+  description: 'before refund cutoff',
+  check: ({ refundTier }) => (refundTier ? null : 'Cannot cancel after the refund cutoff'),
+};
+
+const afterCutoff: Guard = {
+  description: 'after refund cutoff',
+  check: ({ refundTier }) => (refundTier === null ? null : 'Refund cutoff has not passed yet'),
+};
+
+/**
+ * Every state change a booking can make. Trip cancellation releases no seats per booking because
+ * the trip's seat count is reset as a whole. A pending booking that ends without being confirmed
+ * sends back any payment it received, e.g. one waiting for the passenger list; a confirmed booking
+ * that is cancelled refunds what its caller settled on and keeps the rest as a fee. Partial
+ * cancellations follow the customer cancellation transitions' effects without changing state.
+ */
+export const BOOKING_TRANSITIONS: TransitionDefinition[] = [
+  {
+    from: STATES.PENDING_PAYMENT, event: EVENTS.PAYMENT_SUCCESS, to: STATES.CONFIRMED,
+    guards: [paymentSettles, passengersComplete], effects: [],
+  },
+  {
+    from: STATES.PENDING_PAYMENT, event: EVENTS.PAYMENT_FAILED, to: STATES.EXPIRED,
+    guards: [attemptsExhausted], effects: ['releaseSeats', 'refundUnappliedPayments'],
+  },
+  {
+    from: STATES.PENDING_PAYMENT, event: EVENTS.AUTO_EXPIRE, to: STATES.EXPIRED,
+    guards: [holdLapsed], effects: ['releaseSeats', 'refundUnappliedPayments'],
+  },
+  {
+    from: STATES.PENDING_PAYMENT, event: EVENTS.CANCEL_BEFORE_CUTOFF, to: STATES.CANCELLED,
+    guards: [notPaidByWebhook, beforeCutoff], effects: ['releaseSeats', 'refundUnappliedPayments'],
+  },
+  {
+    from: STATES.PENDING_PAYMENT, event: EVENTS.ADMIN_CANCEL, to: STATES.CANCELLED,
+    guards: [], effects: ['releaseSeats', 'refundUnappliedPayments'],
+  },
+  {
+    from: STATES.PENDING_PAYMENT, event: EVENTS.TRIP_CANCELLED, to: STATES.EXPIRED,
+    guards: [], effects: ['refundUnappliedPayments'],
+  },
+  {
+    from: STATES.CONFIRMED, event: EVENTS.CANCEL_BEFORE_CUTOFF, to: STATES.CANCELLED,
+    guards: [beforeCutoff], effects: ['releaseSeats', 'refundCancellation'],
+  },
+  {
+    from: STATES.CONFIRMED, event: EVENTS.CANCEL_AFTER_CUTOFF, to: STATES.CANCELLED,
+    guards: [afterCutoff], effects: ['refundCancellation'],
+  },
+  {
+    from: STATES.CONFIRMED, event: EVENTS.ADMIN_CANCEL, to: STATES.CANCELLED,
+    guards: [], effects: ['releaseSeats', 'refundCancellation'],
+  },
+  {
+    from: STATES.CONFIRMED, event: EVENTS.TRIP_CANCELLED, to: STATES.CANCELLED,
+    guards: [], effects: ['refundCancellation'],
+  },
+];
+
+export function isTerminal(state: BookingState): boolean {
+  return !BOOKING_TRANSITIONS.some((t) => t.from === state);
+}
+
+function findDefinition(state: BookingState, event: BookingEvent): TransitionDefinition {
+  const definition = BOOKING_TRANSITIONS.find((t) => t.from === state && t.event === event);
+  if (!definition) {
+    throw new HttpError(409, isTerminal(state)
+      ? `Booking is already ${state.toLowerCase()}`
+      : `Cannot apply ${event} to a booking in state ${state}`);
   }
+  return definition;
+}
+
+/**
+ * Why `event` can't be applied right now, or null if it can. Throws 409 if the booking's state has
+ * no such transition at all.
+ */
+export function checkTransition(event: BookingEvent, input: GuardInput): string | null {
+  const definition = findDefinition(input.booking.state, event);
+  for (const guard of definition.guards) {
+    const reason = guard.check(input);
+    if (reason) return reason;
+  }
+  return null;
+}
+
+/** The transition `event` takes from the booking's state; throws 409 if a guard rejects it. */
+export function assertTransition(event: BookingEvent, input: GuardInput): TransitionDefinition {
+  const reason = checkTransition(event, input);
+  if (reason) {
+    throw new HttpError(409, reason);
+  }
+  return findDefinition(input.booking.state, event);
+}
+
+/**
+ * The first of `events` the booking can take, for actions that map to different events depending
+ * on the guards (a customer cancellation is before or after the cutoff). Throws the first reason
+ * a candidate was rejected for when none applies.
+ */
+export function resolveTransition(events: BookingEvent[], input: GuardInput): TransitionDefinition {
+  const candidates = events.filter((event) =>
+    BOOKING_TRANSITIONS.some((t) => t.from === input.booking.state && t.event === event));
+  if (candidates.length === 0) {
+    findDefinition(input.booking.state, events[0]);
+  }
+
+  let firstReason: string | null = null;
+  for (const event of candidates) {
+    const reason = checkTransition(event, input);
+    if (!reason) return findDefinition(input.booking.state, event);
+    firstReason = firstReason || reason;
+  }
+  throw new HttpError(409, firstReason!);
+}
+
+export function transition(currentState: BookingState, event: BookingEvent): BookingState {
+  return findDefinition(currentState, event).to;
+}
+
+function describe(definition: TransitionDefinition): string {
+  const guards = definition.guards.length > 0
+    ? ` [${definition.guards.map((guard) => guard.description).join(', ')}]`
+    : '';
+  const effects = definition.effects.length > 0
+    ? ` / ${definition.effects.map((effect) => EFFECT_DESCRIPTIONS[effect]).join(', ')}`
+    : '';
+  return `${definition.event}${guards}${effects}`;
+}
+
+function terminalStates(): BookingState[] {
+  return Object.values(STATES).filter(isTerminal);
+}
+
+export function toMermaid(): string {
+  const lines = [
+    'stateDiagram-v2',
+    `    [*] --> ${INITIAL_STATE}: ${EVENTS.CREATE}`,
+    ...BOOKING_TRANSITIONS.map((t) => `    ${t.from} --> ${t.to}: ${describe(t)}`),
+    ...terminalStates().map((state) => `    ${state} --> [*]`),
+  ];
+  return lines.join('\n');
+}
 
-  return nextState;
+export function toDot(): string {
+  const lines = [
+    'digraph booking_state_machine {',
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded];',
+    '  start [shape=point];',
+    ...terminalStates().map((state) => `  ${state} [peripheries=2];`),
+    `  start -> ${INITIAL_STATE} [label="${EVENTS.CREATE}"];`,
+    ...BOOKING_TRANSITIONS.map((t) => `  ${t.from} -> ${t.to} [label="${describe(t)}"];`),
+    '}',
+  ];
+  return lines.join('\n');
 }
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { allowsDevSecrets } from './auth';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+const DEV_WEBHOOK_SECRET = 'gotyolo-dev-webhook-secret';
+
+export type WebhookRejection = 'MISSING_SIGNATURE' | 'MALFORMED_SIGNATURE' | 'STALE_TIMESTAMP' | 'INVALID_SIGNATURE';
+
+export type WebhookVerification =
+  | { valid: true; timestamp: number; keyIndex: number }
+  | { valid: false; reason: WebhookRejection; timestamp?: number };
+
+/**
+ * Parses WEBHOOK_SECRETS, a comma-separated list of shared secrets. The first one is current;
+ * the others are still accepted so the provider can be switched over without dropping events.
+ * Only development and test runs fall back to a built-in secret.
+ */
+export function parseWebhookSecrets(raw: string | undefined): string[] {
+  const secrets = (raw || '').split(',').map((secret) => secret.trim()).filter(Boolean);
+  if (secrets.length === 0 && allowsDevSecrets()) {
+    return [DEV_WEBHOOK_SECRET];
+  }
+  return secrets;
+}
+
+export function getWebhookToleranceSeconds(): number {
+  const value = parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '', 10);
+  return value > 0 ? value : DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+}
+
+/**
+ * Signs `${timestamp}.${rawBody}` so a captured signature can't be reused with a new timestamp.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, rawBody: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex');
+}
+
+/**
+ * Builds a header value in the `t=<unix seconds>,v1=<hex>` format the verifier expects.
+ */
+export function buildSignatureHeader(secret: string, rawBody: string | Buffer, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, rawBody)}`;
+}
+
+function safeEqualHex(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(actual, 'hex');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Checks a signature header against the raw request body. The header may carry several `v1`
+ * entries (one per key during a rotation); any of them matching any configured secret passes.
+ */
+export function verifyWebhookSignature(
+  header: string | undefined,
+  rawBody: Buffer,
+  secrets: string[],
+  toleranceSeconds: number,
+  now: Date = new Date()
+): WebhookVerification {
+  if (!header) {
+    return { valid: false, reason: 'MISSING_SIGNATURE' };
+  }
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value || '')) {
+      timestamp = parseInt(value, 10);
+    } else if (key === 'v1' && /^[0-9a-f]{64}$/i.test(value || '')) {
+      signatures.push(value.toLowerCase());
+    }
+  }
+  if (timestamp === null || signatures.length === 0) {
+    return { valid: false, reason: 'MALFORMED_SIGNATURE' };
+  }
+
+  const signedAt = timestamp;
+  const keyIndex = secrets.findIndex((secret) => {
+    const expected = signWebhookPayload(secret, signedAt, rawBody);
+    return signatures.some((signature) => safeEqualHex(expected, signature));
+  });
+  if (keyIndex === -1) {
+    return { valid: false, reason: 'INVALID_SIGNATURE', timestamp };
+  }
+
+  // Checked after the signature so STALE_TIMESTAMP always means a genuine but replayed (or badly
+  // delayed) delivery rather than a forgery
+  if (Math.abs(Math.floor(now.getTime() / 1000) - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'STALE_TIMESTAMP', timestamp };
+  }
+
+  return { valid: true, timestamp, keyIndex };
+}